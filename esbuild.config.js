@@ -15,15 +15,22 @@ const extensionConfig = {
   sourcemap: true,
 };
 
-// Webview bundle (Browser)
+// Webview bundle (Browser). ES modules so large, rarely needed libraries (Mermaid) are split
+// into chunks that load on first use.
 const webviewConfig = {
   entryPoints: ['./src/webview/editor.ts'],
   bundle: true,
-  outfile: './dist/webview/editor.js',
-  format: 'iife',
+  outdir: './dist/webview',
+  entryNames: '[name]',
+  chunkNames: 'chunks/[name]-[hash]',
+  splitting: true,
+  format: 'esm',
   platform: 'browser',
   target: 'es2020',
   sourcemap: true,
+  // KaTeX fonts, referenced from its stylesheet
+  loader: { '.woff2': 'file', '.woff': 'file', '.ttf': 'file' },
+  assetNames: 'fonts/[name]-[hash]',
 };
 
 async function build() {
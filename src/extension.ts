@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
-import { MarkdownEditorProvider } from './markdownEditorProvider';
+import { FrontmatterValidator } from './frontmatterValidator';
+import { MarkdownEditorProvider, SourceLocation } from './markdownEditorProvider';
+import { OutlineView } from './outlineView';
+import { SideBySideSync } from './sideBySide';
+import { WikiLinkIndex } from './wikiLinkIndex';
 
 /**
  * Updates the workbench.editorAssociations setting based on user preference.
@@ -63,8 +67,24 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Validate frontmatter (YAML syntax and per-pattern JSON Schemas) for all markdown documents
+  const frontmatterValidator = new FrontmatterValidator();
+  context.subscriptions.push(frontmatterValidator);
+
+  // Index workspace markdown files for resolving [[wikilinks]]
+  const wikiLinkIndex = new WikiLinkIndex();
+  context.subscriptions.push(wikiLinkIndex);
+
+  // Explorer outline of the active rendered document
+  const outlineView = new OutlineView();
+  context.subscriptions.push(outlineView);
+
+  // Scroll and cursor sync between a rendered view and a text editor of the same document
+  const sideBySide = new SideBySideSync();
+  context.subscriptions.push(sideBySide);
+
   // Register the custom editor provider
-  const provider = new MarkdownEditorProvider(context);
+  const provider = new MarkdownEditorProvider(context, frontmatterValidator, wikiLinkIndex, outlineView, sideBySide);
 
   context.subscriptions.push(
     vscode.window.registerCustomEditorProvider(
@@ -74,7 +94,7 @@ export async function activate(context: vscode.ExtensionContext) {
         webviewOptions: {
           retainContextWhenHidden: true,
         },
-        supportsMultipleEditorsPerDocument: false,
+        supportsMultipleEditorsPerDocument: true,
       }
     )
   );
@@ -110,6 +130,21 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Register command to show the raw text and the rendered view side by side
+  context.subscriptions.push(
+    vscode.commands.registerCommand('markdownLiveRender.openSideBySide', async () => {
+      const activeTab = vscode.window.tabGroups.activeTabGroup.activeTab;
+      const beside = { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true };
+      if (activeTab?.input instanceof vscode.TabInputCustom && activeTab.input.uri.fsPath.endsWith('.md')) {
+        await vscode.commands.executeCommand('vscode.openWith', activeTab.input.uri, 'default', beside);
+      } else if (activeTab?.input instanceof vscode.TabInputText && activeTab.input.uri.fsPath.endsWith('.md')) {
+        await vscode.commands.executeCommand('vscode.openWith', activeTab.input.uri, MarkdownEditorProvider.viewType, beside);
+      } else {
+        vscode.window.showInformationMessage('Open a markdown file first');
+      }
+    })
+  );
+
   // Register toggle command (Cmd+Shift+M) to switch between rendered and raw in-place
   context.subscriptions.push(
     vscode.commands.registerCommand('markdownLiveRender.toggle', async () => {
@@ -121,22 +156,70 @@ export async function activate(context: vscode.ExtensionContext) {
 
       let uri: vscode.Uri | undefined;
       let targetViewType: string;
+      let location: SourceLocation | undefined;
 
       if (activeTab.input instanceof vscode.TabInputCustom) {
         uri = activeTab.input.uri;
         if (!uri.fsPath.endsWith('.md')) return;
         targetViewType = 'default';
+        location = await provider.getSourceLocation(uri);
       } else if (activeTab.input instanceof vscode.TabInputText) {
         uri = activeTab.input.uri;
         if (!uri.fsPath.endsWith('.md')) return;
         targetViewType = MarkdownEditorProvider.viewType;
+        const textEditor = vscode.window.activeTextEditor;
+        if (textEditor && textEditor.document.uri.toString() === uri.toString()) {
+          const line = textEditor.selection.active.line;
+          location = { line, topLine: textEditor.visibleRanges[0]?.start.line ?? line };
+        }
       } else {
         return;
       }
 
       // Close current tab so the reopen takes the same tab slot (in-place toggle)
       await vscode.window.tabGroups.close(activeTab, false);
+      if (location && targetViewType === MarkdownEditorProvider.viewType) {
+        provider.revealSourceLocation(uri, location);
+      }
       await vscode.commands.executeCommand('vscode.openWith', uri, targetViewType);
+
+      // Put the text cursor and viewport where the rendered view was
+      const textEditor = vscode.window.activeTextEditor;
+      if (location && targetViewType === 'default' && textEditor?.document.uri.toString() === uri.toString()) {
+        const cursor = new vscode.Position(location.line, 0);
+        textEditor.selection = new vscode.Selection(cursor, cursor);
+        textEditor.revealRange(new vscode.Range(location.topLine, 0, location.topLine, 0), vscode.TextEditorRevealType.AtTop);
+      }
+    })
+  );
+
+  // The document of the active rendered view, for commands that act on it
+  const renderedDocument = (): vscode.Uri | undefined => {
+    const activeTab = vscode.window.tabGroups.activeTabGroup.activeTab;
+    if (activeTab?.input instanceof vscode.TabInputCustom && activeTab.input.viewType === MarkdownEditorProvider.viewType) {
+      return activeTab.input.uri;
+    }
+    vscode.window.showInformationMessage('Open a markdown file in the rendered view first');
+    return undefined;
+  };
+
+  // Register commands to export the rendered view as HTML, to a file or the clipboard
+  context.subscriptions.push(
+    vscode.commands.registerCommand('markdownLiveRender.exportHtml', async () => {
+      const uri = renderedDocument();
+      if (uri) await provider.exportHtml(uri);
+    }),
+    vscode.commands.registerCommand('markdownLiveRender.copyAsRichText', () => {
+      const uri = renderedDocument();
+      if (uri) provider.copyAsRichText(uri);
+    })
+  );
+
+  // Register command (Cmd+Shift+V) to paste the clipboard's text without its formatting
+  context.subscriptions.push(
+    vscode.commands.registerCommand('markdownLiveRender.pastePlainText', async () => {
+      const uri = renderedDocument();
+      if (uri) provider.pastePlainText(uri, await vscode.env.clipboard.readText());
     })
   );
 
@@ -0,0 +1,159 @@
+import { computeLineChanges, computeTextChanges, TextChange } from './textDiff';
+
+/**
+ * A region of the current document written by an external source (e.g. an AI agent),
+ * together with the text it replaced.
+ */
+export interface ExternalHunk {
+  id: number;
+  start: number;
+  end: number;
+  original: string;
+}
+
+/**
+ * Serializable view of a hunk for the webview's review list.
+ */
+export interface ExternalHunkSummary {
+  id: number;
+  line: number;
+  original: string;
+  current: string;
+}
+
+/**
+ * Tracks unreviewed external changes to a document as hunks in current-document offsets.
+ * Every document change is fed through `recordChange`; external changes open or grow hunks,
+ * while local changes only shift them (or edit inside them, keeping the original text).
+ */
+export class ExternalChangeTracker {
+  private hunks: ExternalHunk[] = [];
+  private lastText: string;
+  private nextId = 1;
+
+  constructor(initialText: string) {
+    this.lastText = initialText;
+  }
+
+  public recordChange(newText: string, isExternal: boolean) {
+    const prevText = this.lastText;
+    this.lastText = newText;
+    if (prevText === newText) return;
+
+    // External writers often rewrite the whole file, so diff by line to get reviewable hunks.
+    const changes = isExternal
+      ? computeLineChanges(prevText, newText)
+      : computeTextChanges(prevText, newText);
+    if (!isExternal && this.hunks.length === 0) return;
+
+    this.hunks = mapHunks(this.hunks, changes, prevText, isExternal, () => this.nextId++)
+      .filter((hunk) => newText.slice(hunk.start, hunk.end) !== hunk.original);
+  }
+
+  public getHunk(id: number): ExternalHunk | undefined {
+    return this.hunks.find((hunk) => hunk.id === id);
+  }
+
+  /** Marks a hunk as reviewed; the document keeps the external text. */
+  public accept(id: number) {
+    this.hunks = this.hunks.filter((hunk) => hunk.id !== id);
+  }
+
+  public acceptAll() {
+    this.hunks = [];
+  }
+
+  public getHunks(): readonly ExternalHunk[] {
+    return this.hunks;
+  }
+
+  public getSummaries(): ExternalHunkSummary[] {
+    return this.hunks.map((hunk) => ({
+      id: hunk.id,
+      line: countLines(this.lastText, hunk.start),
+      original: hunk.original,
+      current: this.lastText.slice(hunk.start, hunk.end),
+    }));
+  }
+}
+
+function countLines(text: string, offset: number): number {
+  let line = 0;
+  for (let i = 0; i < offset; i++) {
+    if (text.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+function overlaps(hunk: { start: number; end: number }, change: TextChange): boolean {
+  if (change.start === change.end) {
+    return change.start > hunk.start && change.start < hunk.end;
+  }
+  return change.start < hunk.end && change.end > hunk.start;
+}
+
+function mapHunks(
+  hunks: ExternalHunk[],
+  changes: TextChange[],
+  prevText: string,
+  isExternal: boolean,
+  createId: () => number
+): ExternalHunk[] {
+  // Build regions in pre-change offsets: existing hunks, plus the changes that either came
+  // from the external writer or landed inside an existing hunk.
+  type Region = { start: number; end: number; id: number | null; changes: TextChange[] };
+  const regions: Region[] = hunks.map((hunk) => ({
+    start: hunk.start,
+    end: hunk.end,
+    id: hunk.id,
+    changes: [],
+  }));
+  const outside: TextChange[] = [];
+  for (const change of changes) {
+    if (isExternal || hunks.some((hunk) => overlaps(hunk, change))) {
+      regions.push({ start: change.start, end: change.end, id: null, changes: [change] });
+    } else {
+      outside.push(change);
+    }
+  }
+  regions.sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const merged: Region[] = [];
+  for (const region of regions) {
+    const last = merged[merged.length - 1];
+    // External edits that touch a hunk grow it; local edits only join when they overlap.
+    if (last && (region.start < last.end || (isExternal && region.start === last.end))) {
+      last.end = Math.max(last.end, region.end);
+      last.id = last.id ?? region.id;
+      last.changes.push(...region.changes);
+    } else {
+      merged.push({ ...region, changes: [...region.changes] });
+    }
+  }
+
+  const delta = (list: TextChange[]) =>
+    list.reduce((sum, change) => sum + change.text.length - (change.end - change.start), 0);
+
+  // Changes inside earlier regions move later ones as much as changes between them do.
+  let regionShift = 0;
+  return merged.map((region) => {
+    // Original text: tracked originals where hunks were, untouched pre-change text elsewhere.
+    let original = '';
+    let cursor = region.start;
+    for (const hunk of hunks) {
+      if (hunk.start < cursor || hunk.end > region.end) continue;
+      original += prevText.slice(cursor, hunk.start) + hunk.original;
+      cursor = hunk.end;
+    }
+    original += prevText.slice(cursor, region.end);
+
+    const shift = regionShift + delta(outside.filter((change) => change.end <= region.start));
+    regionShift += delta(region.changes);
+    return {
+      id: region.id ?? createId(),
+      start: region.start + shift,
+      end: region.end + shift + delta(region.changes),
+      original,
+    };
+  });
+}
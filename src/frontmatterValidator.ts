@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { isNode, LineCounter, parseDocument } from 'yaml';
+
+const FRONTMATTER_REGEX = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(\r?\n)?/;
+
+/**
+ * A frontmatter problem, positioned by 0-based document line.
+ */
+export interface FrontmatterIssue {
+  message: string;
+  line: number;
+  source: 'yaml' | 'schema';
+}
+
+type SchemaSetting = Record<string, string | Record<string, unknown>>;
+
+/**
+ * Validates markdown frontmatter against the JSON Schemas configured per glob pattern in
+ * `markdownLiveRender.frontmatterSchemas`, and reports YAML syntax errors. Results are published
+ * as diagnostics and through `onDidChangeIssues` for the rendered view's frontmatter panel.
+ */
+export class FrontmatterValidator implements vscode.Disposable {
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection('markdownLiveRender.frontmatter');
+  private readonly issues = new Map<string, FrontmatterIssue[]>();
+  private readonly schemaCache = new Map<string, Promise<ValidateFunction | null>>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private ajv = createAjv();
+
+  public readonly onDidChangeIssues = this.changeEmitter.event;
+
+  constructor() {
+    this.disposables.push(
+      this.diagnostics,
+      this.changeEmitter,
+      vscode.workspace.onDidOpenTextDocument((document) => this.validate(document)),
+      vscode.workspace.onDidChangeTextDocument((e) => this.validate(e.document)),
+      vscode.workspace.onDidCloseTextDocument((document) => this.clear(document.uri)),
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        // Schema files are cached once compiled; pick up edits to them on save.
+        if (document.uri.fsPath.endsWith('.json') && this.schemaCache.has(document.uri.toString())) {
+          this.resetSchemas();
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('markdownLiveRender.frontmatterSchemas')) {
+          this.resetSchemas();
+        }
+      })
+    );
+    vscode.workspace.textDocuments.forEach((document) => this.validate(document));
+  }
+
+  public getIssues(uri: vscode.Uri): FrontmatterIssue[] {
+    return this.issues.get(uri.toString()) ?? [];
+  }
+
+  public async validate(document: vscode.TextDocument): Promise<void> {
+    if (document.languageId !== 'markdown' && !document.fileName.endsWith('.md')) return;
+
+    const version = document.version;
+    const issues = await this.collectIssues(document);
+    // A newer validation of this document has started in the meantime.
+    if (document.version !== version || document.isClosed) return;
+
+    this.issues.set(document.uri.toString(), issues);
+    this.diagnostics.set(
+      document.uri,
+      issues.map((issue) => {
+        const line = Math.min(issue.line, document.lineCount - 1);
+        const diagnostic = new vscode.Diagnostic(
+          document.lineAt(line).range,
+          issue.message,
+          vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = issue.source === 'yaml' ? 'frontmatter (YAML)' : 'frontmatter (schema)';
+        return diagnostic;
+      })
+    );
+    this.changeEmitter.fire(document.uri);
+  }
+
+  private clear(uri: vscode.Uri) {
+    this.issues.delete(uri.toString());
+    this.diagnostics.delete(uri);
+  }
+
+  private resetSchemas() {
+    this.schemaCache.clear();
+    this.ajv = createAjv();
+    vscode.workspace.textDocuments.forEach((document) => this.validate(document));
+  }
+
+  private async collectIssues(document: vscode.TextDocument): Promise<FrontmatterIssue[]> {
+    const text = document.getText();
+    const match = text.match(FRONTMATTER_REGEX);
+    const validateSchema = await this.getSchemaFor(document);
+
+    if (!match) {
+      // Files covered by a schema still need their required keys, even with no frontmatter yet.
+      return validateSchema ? schemaIssues(validateSchema, {}, () => 0) : [];
+    }
+
+    const lineCounter = new LineCounter();
+    const yamlDoc = parseDocument(match[1], { lineCounter });
+    // Line 0 is the opening `---`, so frontmatter line N (1-based) is document line N.
+    if (yamlDoc.errors.length > 0) {
+      return yamlDoc.errors.map((error) => ({
+        message: `Invalid YAML: ${error.message.split('\n')[0]}`,
+        line: error.linePos?.[0].line ?? 0,
+        source: 'yaml' as const,
+      }));
+    }
+
+    if (!validateSchema) return [];
+
+    const lineOf = (instancePath: string): number => {
+      const path = pointerSegments(instancePath).map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+      const node = path.length > 0 ? yamlDoc.getIn(path, true) : null;
+      if (!isNode(node) || !node.range) return 0;
+      return lineCounter.linePos(node.range[0]).line;
+    };
+    return schemaIssues(validateSchema, yamlDoc.toJS() ?? {}, lineOf);
+  }
+
+  private async getSchemaFor(document: vscode.TextDocument): Promise<ValidateFunction | null> {
+    const setting = vscode.workspace
+      .getConfiguration('markdownLiveRender', document.uri)
+      .get<SchemaSetting>('frontmatterSchemas', {});
+
+    // Patterns are relative to the workspace folder, like `files.exclude`.
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    for (const [pattern, schema] of Object.entries(setting)) {
+      const selector = { pattern: folder ? new vscode.RelativePattern(folder, pattern) : pattern };
+      if (vscode.languages.match(selector, document) === 0) continue;
+
+      if (typeof schema !== 'string') {
+        const key = `inline:${pattern}`;
+        if (!this.schemaCache.has(key)) {
+          this.schemaCache.set(key, Promise.resolve(this.compile(schema, pattern)));
+        }
+        return this.schemaCache.get(key)!;
+      }
+
+      const schemaUri = resolveSchemaUri(schema, document);
+      const key = schemaUri.toString();
+      if (!this.schemaCache.has(key)) {
+        this.schemaCache.set(key, this.loadSchema(schemaUri));
+      }
+      return this.schemaCache.get(key)!;
+    }
+    return null;
+  }
+
+  private async loadSchema(uri: vscode.Uri): Promise<ValidateFunction | null> {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(uri);
+      return this.compile(JSON.parse(new TextDecoder().decode(bytes)), uri.fsPath);
+    } catch (e) {
+      vscode.window.showWarningMessage(
+        `Markdown Live Render: could not load frontmatter schema ${vscode.workspace.asRelativePath(uri)}: ${e instanceof Error ? e.message : e}`
+      );
+      return null;
+    }
+  }
+
+  private compile(schema: Record<string, unknown>, label: string): ValidateFunction | null {
+    try {
+      return this.ajv.compile(schema);
+    } catch (e) {
+      vscode.window.showWarningMessage(
+        `Markdown Live Render: invalid frontmatter schema for ${label}: ${e instanceof Error ? e.message : e}`
+      );
+      return null;
+    }
+  }
+
+  public dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.issues.clear();
+  }
+}
+
+function createAjv(): Ajv {
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  addFormats(ajv);
+  return ajv;
+}
+
+function resolveSchemaUri(schemaPath: string, document: vscode.TextDocument): vscode.Uri {
+  if (schemaPath.startsWith('/') || /^[a-zA-Z]:[\\/]/.test(schemaPath)) {
+    return vscode.Uri.file(schemaPath);
+  }
+  const folder = vscode.workspace.getWorkspaceFolder(document.uri) ?? vscode.workspace.workspaceFolders?.[0];
+  return folder
+    ? vscode.Uri.joinPath(folder.uri, schemaPath)
+    : vscode.Uri.joinPath(document.uri, '..', schemaPath);
+}
+
+function schemaIssues(
+  validate: ValidateFunction,
+  data: unknown,
+  lineOf: (instancePath: string) => number
+): FrontmatterIssue[] {
+  if (validate(data)) return [];
+  return (validate.errors ?? []).map((error) => ({
+    message: formatSchemaError(error),
+    line: lineOf(error.instancePath),
+    source: 'schema' as const,
+  }));
+}
+
+/** The keys and indexes of a JSON Pointer such as Ajv's `instancePath`. */
+function pointerSegments(pointer: string): string[] {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function formatSchemaError(error: ErrorObject): string {
+  const location = error.instancePath ? `'${pointerSegments(error.instancePath).join('.')}' ` : '';
+  if (error.keyword === 'required') {
+    return `Missing required property '${(error.params as { missingProperty: string }).missingProperty}'`;
+  }
+  if (error.keyword === 'additionalProperties') {
+    return `Unexpected property '${(error.params as { additionalProperty: string }).additionalProperty}'`;
+  }
+  return `${location}${error.message ?? 'is invalid'}`;
+}
@@ -0,0 +1,75 @@
+import { escapeHtml } from './utils';
+
+/**
+ * Builds the standalone page written by "Export to HTML" from the rendered view's snapshot and
+ * the webview stylesheet. Everything the page needs is inlined: KaTeX's fonts become data URIs
+ * (woff2 only, which every current browser reads) when the document has math, and their
+ * `@font-face` rules are dropped when it has none.
+ */
+
+/** The rendered document as the webview hands it over (see webview/exportHtml.ts). */
+export interface RenderedExport {
+  html: string;
+  themeCss: string;
+  bodyClass: string;
+}
+
+// The webview scrolls inside a full-height container; the page scrolls itself.
+const STANDALONE_CSS = `html, body { height: auto; }
+#editor-container { height: auto; overflow: visible; padding: 32px 20px; }
+.frontmatter-container { max-width: 800px; margin: 20px auto 0; }
+.frontmatter-header { cursor: default; }`;
+
+const FONT_FACE = /@font-face\s*{[^}]*}/g;
+const WOFF2_URL = /url\(\s*["']?([^"')]+\.woff2)["']?\s*\)\s*format\(\s*["']woff2["']\s*\)/;
+
+/**
+ * Rewrites each `@font-face` rule to load its woff2 file from a data URI. `readFont` gets the
+ * URL as written in the stylesheet and resolves to the file as base64; rules whose font can't
+ * be read are dropped, as are all of them when `keepFonts` is false.
+ */
+export async function inlineFontFaces(
+  css: string,
+  readFont: (url: string) => Promise<string | undefined>,
+  keepFonts: boolean
+): Promise<string> {
+  const rules = keepFonts ? css.match(FONT_FACE) ?? [] : [];
+  const fonts = new Map<string, string | undefined>();
+  await Promise.all(
+    rules.map(async (rule) => {
+      const url = rule.match(WOFF2_URL)?.[1];
+      if (url && !fonts.has(url)) fonts.set(url, await readFont(url));
+    })
+  );
+  return css.replace(FONT_FACE, (rule) => {
+    const url = rule.match(WOFF2_URL)?.[1];
+    const data = url ? fonts.get(url) : undefined;
+    if (!data) return '';
+    return rule.replace(/src:[^;}]*/, `src: url("data:font/woff2;base64,${data}") format("woff2")`);
+  });
+}
+
+/** Whether the exported markup contains rendered math, which needs the KaTeX fonts. */
+export function hasMath(html: string): boolean {
+  return /class="[^"]*\bkatex\b/.test(html);
+}
+
+export function standaloneHtml(rendered: RenderedExport, css: string, title: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>
+${rendered.themeCss}
+${css}
+${STANDALONE_CSS}
+  </style>
+</head>
+<body class="${escapeHtml(rendered.bodyClass)}">
+${rendered.html}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+
+const DEFAULT_ASSETS_FOLDER = '${documentDirname}/assets';
+const DEFAULT_FILE_NAME = '${name}';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'image/avif': 'avif',
+};
+
+export interface PastedImage {
+  /** File name of a dropped file; empty for clipboard screenshots. */
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function timestamp(date: Date): string {
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+}
+
+function splitExtension(name: string): [string, string] {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot + 1).toLowerCase()] : [name, ''];
+}
+
+/** Path from `fromDir` to `to`, both as URI paths, with `/` separators. */
+function relativePath(fromDir: string, to: string): string {
+  const from = fromDir.split('/').filter(Boolean);
+  const target = to.split('/').filter(Boolean);
+  let common = 0;
+  while (common < from.length && common < target.length - 1 && from[common] === target[common]) common++;
+  return [...from.slice(common).map(() => '..'), ...target.slice(common)].join('/');
+}
+
+function expand(pattern: string, variables: Record<string, string>): string {
+  return pattern.replace(/\$\{(\w+)\}/g, (match, key: string) => variables[key] ?? match);
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Writes a pasted or dropped image to the configured assets folder and returns the path to use
+ * in the markdown, relative to the document. Existing files are never overwritten: a `-1`, `-2`,
+ * … suffix is added instead. Throws with a message suitable for the user when the image cannot
+ * be saved.
+ */
+export async function saveImageAsset(document: vscode.TextDocument, image: PastedImage): Promise<string> {
+  if (document.isUntitled) {
+    throw new Error('Save the document before adding images, so they can be stored next to it.');
+  }
+  if (vscode.workspace.fs.isWritableFileSystem(document.uri.scheme) === false) {
+    throw new Error(`Cannot save images: ${document.uri.scheme} files are read-only.`);
+  }
+
+  const config = vscode.workspace.getConfiguration('markdownLiveRender', document.uri);
+  const documentDir = vscode.Uri.joinPath(document.uri, '..');
+  const [documentBasename] = splitExtension(document.uri.path.slice(document.uri.path.lastIndexOf('/') + 1));
+  const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+  const [originalName, originalExtension] = splitExtension(image.name.replace(/[\\/]/g, '_'));
+  const now = new Date();
+
+  const variables = {
+    documentDirname: documentDir.path,
+    documentBasename,
+    workspaceFolder: folder?.uri.path ?? documentDir.path,
+    timestamp: timestamp(now),
+    name: originalName || `image-${timestamp(now)}`,
+  };
+
+  const folderPattern = config.get<string>('imageAssetsFolder') || DEFAULT_ASSETS_FOLDER;
+  const folderPath = expand(folderPattern, variables);
+  const assetsDir = folderPath.startsWith('/')
+    ? documentDir.with({ path: folderPath })
+    : vscode.Uri.joinPath(documentDir, folderPath);
+
+  const baseName = expand(config.get<string>('imageFileName') || DEFAULT_FILE_NAME, variables).replace(/[\\/]/g, '_');
+  const extension = EXTENSIONS[image.mimeType] ?? (originalExtension || 'png');
+
+  try {
+    await vscode.workspace.fs.createDirectory(assetsDir);
+    let target = vscode.Uri.joinPath(assetsDir, `${baseName}.${extension}`);
+    for (let n = 1; await exists(target); n++) {
+      target = vscode.Uri.joinPath(assetsDir, `${baseName}-${n}.${extension}`);
+    }
+    await vscode.workspace.fs.writeFile(target, image.data);
+    return relativePath(documentDir.path, target.path);
+  } catch (e) {
+    if (e instanceof vscode.FileSystemError && e.code === 'NoPermissions') {
+      throw new Error(`Cannot save images to ${vscode.workspace.asRelativePath(assetsDir)}: the folder is read-only.`);
+    }
+    throw new Error(`Could not save image: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
@@ -1,13 +1,44 @@
 import * as vscode from 'vscode';
-import { SyncManager } from './syncManager';
+import { FrontmatterValidator } from './frontmatterValidator';
+import { RenderedExport, hasMath, inlineFontFaces, standaloneHtml } from './htmlExport';
+import { saveImageAsset } from './imageAssets';
+import { OutlineHeading, OutlineView } from './outlineView';
+import { SideBySideSync } from './sideBySide';
+import { DocumentSync, SyncManager } from './syncManager';
+import { computeTextChanges } from './textDiff';
+import { newNoteUri, toTarget, WikiLinkIndex } from './wikiLinkIndex';
+
+const IMAGE_GLOB = '**/*.{png,jpg,jpeg,gif,svg,webp,bmp,ico,avif}';
+const SOURCE_LOCATION_TIMEOUT_MS = 500;
+// Exporting reads every local image in the document.
+const EXPORT_TIMEOUT_MS = 30000;
+
+/** Cursor and viewport as TextDocument lines, carried across a rendered/raw toggle. */
+export interface SourceLocation {
+  line: number;
+  topLine: number;
+}
 
 export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
   public static readonly viewType = 'markdownLiveRender.editor';
 
-  private syncManagers = new Map<string, SyncManager>();
-  private lastSentContent = new Map<string, string>();
+  // Rendered panels of each open document, keyed by document URI.
+  private documents = new Map<string, DocumentSync>();
+  // `#anchor` to scroll to once a rendered view opened by a link has loaded its content.
+  private pendingAnchors = new Map<string, string>();
+  // Cursor location to restore once a rendered view opened by the toggle command has loaded.
+  private pendingSourceLocations = new Map<string, SourceLocation>();
+  // Replies the webview owes to requests from the host, keyed by request id.
+  private webviewRequests = new Map<number, (result: unknown) => void>();
+  private nextWebviewRequest = 1;
 
-  constructor(private readonly context: vscode.ExtensionContext) {}
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly frontmatterValidator: FrontmatterValidator,
+    private readonly wikiLinkIndex: WikiLinkIndex,
+    private readonly outlineView: OutlineView,
+    private readonly sideBySide: SideBySideSync
+  ) {}
 
   public async resolveCustomTextEditor(
     document: vscode.TextDocument,
@@ -20,107 +51,445 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
       localResourceRoots: [
         vscode.Uri.joinPath(this.context.extensionUri, 'dist'),
         vscode.Uri.joinPath(this.context.extensionUri, 'media'),
+        // Images referenced from the document
+        vscode.Uri.joinPath(document.uri, '..'),
+        ...(vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri),
       ],
     };
 
-    // Create sync manager for this document
-    const syncManager = new SyncManager(document, webviewPanel);
-    this.syncManagers.set(document.uri.toString(), syncManager);
+    // Create sync state for this panel; panels of the same document share the review state
+    let documentSync = this.documents.get(document.uri.toString());
+    if (!documentSync) {
+      documentSync = new DocumentSync(document);
+      this.documents.set(document.uri.toString(), documentSync);
+    }
+    const syncManager = new SyncManager(document, webviewPanel, documentSync);
+    documentSync.panels.add(syncManager);
 
     // Set up the webview HTML
     webviewPanel.webview.html = this.getHtmlForWebview(webviewPanel.webview);
 
     // Send initial content to webview
-    this.updateWebview(webviewPanel.webview, document);
+    this.postImageBase(webviewPanel.webview, document);
+    syncManager.updateWebview();
+    syncManager.postExternalChanges();
+    const pendingAnchor = this.pendingAnchors.get(document.uri.toString());
+    if (pendingAnchor !== undefined) {
+      this.pendingAnchors.delete(document.uri.toString());
+      webviewPanel.webview.postMessage({ type: 'scrollToAnchor', anchor: pendingAnchor });
+    }
+    const pendingSourceLocation = this.pendingSourceLocations.get(document.uri.toString());
+    if (pendingSourceLocation !== undefined) {
+      this.pendingSourceLocations.delete(document.uri.toString());
+      webviewPanel.webview.postMessage({ type: 'revealSourceLocation', location: pendingSourceLocation });
+    }
+    this.postFrontmatterIssues(webviewPanel.webview, document);
+    const frontmatterIssuesSubscription = this.frontmatterValidator.onDidChangeIssues((uri) => {
+      if (uri.toString() === document.uri.toString()) {
+        this.postFrontmatterIssues(webviewPanel.webview, document);
+      }
+    });
+    this.postWikiLinkTargets(webviewPanel.webview, document);
+    const wikiLinkIndexSubscription = this.wikiLinkIndex.onDidChange(() =>
+      this.postWikiLinkTargets(webviewPanel.webview, document)
+    );
+    const imageWatcher = this.watchImages(webviewPanel.webview, document);
+
+    if (webviewPanel.active) this.outlineView.setActiveDocument(document.uri);
+    const viewStateSubscription = webviewPanel.onDidChangeViewState(() => {
+      if (webviewPanel.active) {
+        this.outlineView.setActiveDocument(document.uri);
+      } else if (this.outlineView.isActiveDocument(document.uri)) {
+        this.outlineView.setActiveDocument(undefined);
+      }
+    });
+    const outlineSelectSubscription = this.outlineView.onDidSelectHeading(({ uri, index }) => {
+      if (uri.toString() === document.uri.toString() && webviewPanel.active) {
+        webviewPanel.webview.postMessage({ type: 'revealHeading', index });
+      }
+    });
+    const sideBySideSubscription = this.sideBySide.attach(document, webviewPanel.webview);
 
     // Handle messages from webview
     webviewPanel.webview.onDidReceiveMessage(
-      (message) => this.handleWebviewMessage(message, document),
+      (message) => this.handleWebviewMessage(message, document, syncManager),
       undefined,
       this.context.subscriptions
     );
 
-    // Handle document changes (from other sources like AI)
-    const changeDocumentSubscription = vscode.workspace.onDidChangeTextDocument(
-      (e) => {
-        if (e.document.uri.toString() === document.uri.toString()) {
-          const manager = this.syncManagers.get(document.uri.toString());
-          if (manager && !manager.isInternalChange) {
-            this.updateWebview(webviewPanel.webview, document);
-          }
-        }
-      }
-    );
-
     // Clean up when editor is closed
     webviewPanel.onDidDispose(() => {
-      changeDocumentSubscription.dispose();
-      const uri = document.uri.toString();
-      const manager = this.syncManagers.get(uri);
-      if (manager) {
-        manager.dispose();
-        this.syncManagers.delete(uri);
+      frontmatterIssuesSubscription.dispose();
+      wikiLinkIndexSubscription.dispose();
+      imageWatcher.dispose();
+      viewStateSubscription.dispose();
+      outlineSelectSubscription.dispose();
+      sideBySideSubscription.dispose();
+      syncManager.dispose();
+      syncManager.documentSync.panels.delete(syncManager);
+      if (syncManager.documentSync.panels.size === 0) {
+        syncManager.documentSync.dispose();
+        this.documents.delete(document.uri.toString());
+        this.outlineView.clear(document.uri);
       }
-      this.lastSentContent.delete(uri);
     });
   }
 
-  private updateWebview(webview: vscode.Webview, document: vscode.TextDocument) {
-    const content = document.getText();
-    const uri = document.uri.toString();
-    
-    // Skip if content hasn't changed (avoid redundant updates)
-    if (this.lastSentContent.get(uri) === content) {
+  /** Asks the rendered view of `uri` which lines its cursor and viewport are on. */
+  public getSourceLocation(uri: vscode.Uri): Promise<SourceLocation | undefined> {
+    const webview = this.documents.get(uri.toString())?.primaryPanel()?.webview;
+    if (!webview) return Promise.resolve(undefined);
+    return this.requestFromWebview<SourceLocation>(webview, { type: 'requestSourceLocation' }, SOURCE_LOCATION_TIMEOUT_MS);
+  }
+
+  /** Posts `message` with a fresh request id; resolves with the reply, or undefined on timeout. */
+  private requestFromWebview<T>(
+    webview: vscode.Webview,
+    message: { type: string; [key: string]: unknown },
+    timeoutMs: number
+  ): Promise<T | undefined> {
+    const requestId = this.nextWebviewRequest++;
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.webviewRequests.delete(requestId);
+        resolve(undefined);
+      }, timeoutMs);
+      this.webviewRequests.set(requestId, (result) => {
+        clearTimeout(timer);
+        this.webviewRequests.delete(requestId);
+        resolve((result ?? undefined) as T | undefined);
+      });
+      webview.postMessage({ ...message, requestId });
+    });
+  }
+
+  /** Moves the rendered view of `uri` to `location`, now or as soon as it opens. */
+  public revealSourceLocation(uri: vscode.Uri, location: SourceLocation) {
+    const webview = this.documents.get(uri.toString())?.primaryPanel()?.webview;
+    if (webview) {
+      webview.postMessage({ type: 'revealSourceLocation', location });
+    } else {
+      this.pendingSourceLocations.set(uri.toString(), location);
+    }
+  }
+
+  /**
+   * Writes the rendered view of `uri` to a self-contained HTML file: styles, theme colors, math
+   * fonts and local images are all inlined.
+   */
+  public async exportHtml(uri: vscode.Uri) {
+    const webview = this.documents.get(uri.toString())?.primaryPanel()?.webview;
+    if (!webview) return;
+
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: uri.with({ path: uri.path.replace(/\.md$/i, '') + '.html' }),
+      filters: { HTML: ['html', 'htm'] },
+      saveLabel: 'Export',
+    });
+    if (!target) return;
+
+    const includeFrontmatter = vscode.workspace
+      .getConfiguration('markdownLiveRender', uri)
+      .get<boolean>('exportIncludeFrontmatter', false);
+    const rendered = await this.requestFromWebview<RenderedExport>(
+      webview,
+      { type: 'requestExportHtml', includeFrontmatter },
+      EXPORT_TIMEOUT_MS
+    );
+    if (!rendered) {
+      vscode.window.showErrorMessage('The rendered view did not respond, so nothing was exported.');
+      return;
+    }
+
+    try {
+      const css = await this.readExportStylesheet(hasMath(rendered.html));
+      const title = uri.path.slice(uri.path.lastIndexOf('/') + 1).replace(/\.md$/i, '');
+      await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(standaloneHtml(rendered, css, title)));
+    } catch (e) {
+      vscode.window.showErrorMessage(e instanceof Error ? e.message : String(e));
       return;
     }
-    
-    this.lastSentContent.set(uri, content);
-    
+
+    const choice = await vscode.window.showInformationMessage(
+      `Exported ${vscode.workspace.asRelativePath(uri)} to ${vscode.workspace.asRelativePath(target)}.`,
+      'Open in Browser'
+    );
+    if (choice === 'Open in Browser') await vscode.env.openExternal(target);
+  }
+
+  /** Puts the rendered view of `uri` on the clipboard as rich text. */
+  public copyAsRichText(uri: vscode.Uri) {
+    this.documents.get(uri.toString())?.primaryPanel()?.webview.postMessage({ type: 'copyAsRichText' });
+  }
+
+  /** Pastes `text` into the rendered view of `uri` as plain text. */
+  public pastePlainText(uri: vscode.Uri, text: string) {
+    this.documents.get(uri.toString())?.primaryPanel()?.webview.postMessage({ type: 'pastePlainText', text });
+  }
+
+  /** The webview stylesheet, with the math fonts embedded when `withFonts` is set. */
+  private async readExportStylesheet(withFonts: boolean): Promise<string> {
+    const webviewDir = vscode.Uri.joinPath(this.context.extensionUri, 'dist', 'webview');
+    const css = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(webviewDir, 'editor.css')));
+    return inlineFontFaces(
+      css,
+      async (url) => {
+        try {
+          const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(webviewDir, url));
+          return Buffer.from(bytes).toString('base64');
+        } catch {
+          return undefined;
+        }
+      },
+      withFonts
+    );
+  }
+
+  /**
+   * Replaces the document's text through minimal range edits, so undo stops, other editors'
+   * cursors and concurrent writers are not disturbed by a whole-document replace.
+   */
+  private async applyDocumentText(document: vscode.TextDocument, text: string) {
+    const changes = computeTextChanges(document.getText(), text);
+    if (changes.length === 0) return;
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const change of changes) {
+      edit.replace(
+        document.uri,
+        new vscode.Range(document.positionAt(change.start), document.positionAt(change.end)),
+        change.text
+      );
+    }
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  /**
+   * Tells the user their rendered-view edit overlapped a concurrent change and was not applied.
+   * The concurrent change is kept; "Use My Version" restores the rejected edit instead.
+   */
+  private async showMergeConflict(document: vscode.TextDocument, documentSync: DocumentSync, ours: string) {
+    const choice = await vscode.window.showWarningMessage(
+      `Your edit to ${vscode.workspace.asRelativePath(document.uri)} overlapped a concurrent change and could not be merged. The other change was kept.`,
+      'Use My Version'
+    );
+    if (choice !== 'Use My Version') return;
+
+    await documentSync.applyEdit(() => this.applyDocumentText(document, ours));
+  }
+
+  private postFrontmatterIssues(webview: vscode.Webview, document: vscode.TextDocument) {
+    webview.postMessage({
+      type: 'frontmatterIssues',
+      issues: this.frontmatterValidator.getIssues(document.uri),
+    });
+  }
+
+  /** Webview URIs that relative (and `/`-rooted) image paths in the document resolve against. */
+  private postImageBase(webview: vscode.Webview, document: vscode.TextDocument) {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    webview.postMessage({
+      type: 'imageBase',
+      documentBase: webview.asWebviewUri(vscode.Uri.joinPath(document.uri, '..')).toString(),
+      workspaceBase: folder ? webview.asWebviewUri(folder.uri).toString() : null,
+    });
+  }
+
+  /** Tells the webview to reload images whose files are created or rewritten on disk. */
+  private watchImages(webview: vscode.Webview, document: vscode.TextDocument): vscode.Disposable {
+    const root = vscode.workspace.getWorkspaceFolder(document.uri)?.uri ?? vscode.Uri.joinPath(document.uri, '..');
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(root, IMAGE_GLOB),
+      false,
+      false,
+      true
+    );
+    const notify = (uri: vscode.Uri) =>
+      webview.postMessage({ type: 'imageChanged', uri: webview.asWebviewUri(uri).toString() });
+    return vscode.Disposable.from(watcher, watcher.onDidCreate(notify), watcher.onDidChange(notify));
+  }
+
+  private async postWikiLinkTargets(webview: vscode.Webview, document: vscode.TextDocument) {
     webview.postMessage({
-      type: 'update',
-      content,
-      version: document.version,
+      type: 'wikiLinkTargets',
+      targets: await this.wikiLinkIndex.getTargets(),
+      documentPath: toTarget(document.uri),
     });
   }
 
+  /**
+   * Opens the note a wikilink points to, at the linked heading if there is one. Unresolved
+   * links offer to create the note next to the current document.
+   */
+  private async openWikiLink(document: vscode.TextDocument, target: string, heading: string) {
+    const uri = await this.wikiLinkIndex.resolve(target, document.uri);
+    if (!uri) {
+      const newUri = newNoteUri(target, document.uri);
+      if (!newUri) {
+        vscode.window.showInformationMessage(
+          `No note named "${target}" in the workspace, and it can't be created outside the workspace.`
+        );
+        return;
+      }
+      const choice = await vscode.window.showInformationMessage(
+        `No note named "${target}" in the workspace.`,
+        'Create Note'
+      );
+      if (choice !== 'Create Note') return;
+      const title = target.slice(target.lastIndexOf('/') + 1);
+      await vscode.workspace.fs.writeFile(newUri, new TextEncoder().encode(`# ${title}\n`));
+      await vscode.commands.executeCommand('vscode.open', newUri);
+      return;
+    }
+
+    let selection: vscode.Range | undefined;
+    if (heading) {
+      const wanted = heading.trim().toLowerCase();
+      const match = (await this.wikiLinkIndex.getHeadings(uri)).find((h) => h.text.trim().toLowerCase() === wanted);
+      if (match) selection = new vscode.Range(match.line, 0, match.line, 0);
+    }
+    await vscode.commands.executeCommand('vscode.open', uri, selection ? { selection } : undefined);
+  }
+
+  /**
+   * Opens a relative (or workspace-root-relative) link from the document. Markdown files open in
+   * the rendered view, scrolled to the link's `#anchor`; other files open in a text editor at
+   * the `#L<line>` the link names.
+   */
+  private async openRelativeLink(document: vscode.TextDocument, href: string) {
+    const hashIndex = href.indexOf('#');
+    const pathPart = hashIndex === -1 ? href : href.slice(0, hashIndex);
+    const rawFragment = hashIndex === -1 ? '' : href.slice(hashIndex + 1);
+
+    let fragment: string;
+    try {
+      fragment = decodeURIComponent(rawFragment);
+    } catch {
+      fragment = rawFragment;
+    }
+    let path: string;
+    try {
+      path = decodeURIComponent(pathPart.split('?')[0]);
+    } catch {
+      path = pathPart;
+    }
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const target = !path
+      ? document.uri
+      : path.startsWith('/') && folder
+        ? vscode.Uri.joinPath(folder.uri, path)
+        : vscode.Uri.joinPath(document.uri, '..', path);
+
+    let stat: vscode.FileStat;
+    try {
+      stat = await vscode.workspace.fs.stat(target);
+    } catch {
+      vscode.window.showWarningMessage(`Link target not found: ${vscode.workspace.asRelativePath(target)}`);
+      return;
+    }
+    if (stat.type & vscode.FileType.Directory) {
+      await vscode.commands.executeCommand('revealInExplorer', target);
+      return;
+    }
+
+    if (/\.(md|markdown)$/i.test(target.path)) {
+      const anchor = /^L\d+/.test(fragment) ? '' : fragment;
+      const openWebview = this.documents.get(target.toString())?.primaryPanel()?.webview;
+      if (anchor && openWebview) {
+        openWebview.postMessage({ type: 'scrollToAnchor', anchor });
+      } else if (anchor) {
+        this.pendingAnchors.set(target.toString(), anchor);
+      }
+      if (target.toString() !== document.uri.toString()) {
+        await vscode.commands.executeCommand('vscode.openWith', target, MarkdownEditorProvider.viewType);
+      }
+      return;
+    }
+
+    // GitHub-style line fragments: #L40, #L40C5, #L40-L52
+    const lines = fragment.match(/^L(\d+)(?:C(\d+))?(?:-L?(\d+))?/);
+    let selection: vscode.Range | undefined;
+    if (lines) {
+      const start = new vscode.Position(Math.max(Number(lines[1]) - 1, 0), Math.max(Number(lines[2] ?? 1) - 1, 0));
+      const end = lines[3] ? new vscode.Position(Math.max(Number(lines[3]) - 1, 0), 0) : start;
+      selection = new vscode.Range(start, end);
+    }
+    await vscode.commands.executeCommand('vscode.open', target, selection ? { selection } : undefined);
+  }
+
+  /**
+   * Restores the original text of the given external hunks. The revert is pushed to the
+   * webview like any other document change, but is not tracked as a new external change.
+   */
+  private async revertExternalChanges(
+    document: vscode.TextDocument,
+    manager: SyncManager,
+    hunkIds: number[]
+  ) {
+    const edit = new vscode.WorkspaceEdit();
+    for (const id of hunkIds) {
+      const hunk = manager.externalChanges.getHunk(id);
+      if (!hunk) continue;
+      edit.replace(
+        document.uri,
+        new vscode.Range(document.positionAt(hunk.start), document.positionAt(hunk.end)),
+        hunk.original
+      );
+    }
+    if (edit.size === 0) return;
+
+    await manager.documentSync.applyEdit(() => vscode.workspace.applyEdit(edit));
+  }
+
   private async handleWebviewMessage(
-    message: { type: string; content?: string; cursorPosition?: number; href?: string },
-    document: vscode.TextDocument
+    message: {
+      type: string;
+      content?: string;
+      baseVersion?: number;
+      cursorPosition?: number;
+      href?: string;
+      hunkId?: number;
+      target?: string;
+      heading?: string;
+      requestId?: number;
+      name?: string;
+      mimeType?: string;
+      data?: Uint8Array | number[];
+      headings?: OutlineHeading[];
+      index?: number;
+      location?: SourceLocation | null;
+      line?: number;
+      export?: RenderedExport;
+      copied?: boolean;
+    },
+    document: vscode.TextDocument,
+    manager: SyncManager
   ) {
+    const webview = manager.webview;
     switch (message.type) {
       case 'edit':
         if (message.content !== undefined) {
-          const uri = document.uri.toString();
-          const manager = this.syncManagers.get(uri);
-
-          // Mark this as an internal change so we don't echo updates back into the webview.
-          // IMPORTANT: We delay releasing this flag until the next tick because VS Code can
-          // fire additional change events after applyEdit resolves.
-          if (manager) manager.isInternalChange = true;
+          const content = message.content;
+          const currentText = document.getText();
+          const baseVersion = typeof message.baseVersion === 'number' ? message.baseVersion : undefined;
+          const { text: targetText, conflict } = manager.rebaseEdit(content, baseVersion, currentText);
 
-          try {
+          await manager.documentSync.applyEdit(async () => {
             // If content is identical, skip the edit to avoid churn (and potential cursor jumps).
-            if (document.getText() === message.content) {
-              this.lastSentContent.set(uri, message.content);
-              break;
+            if (currentText !== targetText) {
+              await this.applyDocumentText(document, targetText);
             }
 
-            const edit = new vscode.WorkspaceEdit();
-            edit.replace(
-              document.uri,
-              new vscode.Range(0, 0, document.lineCount, 0),
-              message.content
-            );
-            await vscode.workspace.applyEdit(edit);
-
-            // Track content we've already sent/applied so updateWebview can skip redundant pushes.
-            this.lastSentContent.set(uri, message.content);
-          } finally {
-            if (manager) {
-              setTimeout(() => {
-                manager.isInternalChange = false;
-              }, 0);
-            }
+            // Track content the webview already has so updateWebview can skip redundant pushes.
+            manager.lastSentContent = content;
+          }, manager);
+
+          // A merge (or a rejected edit) leaves the document different from the webview's copy.
+          if (targetText !== content) {
+            manager.updateWebview();
+          }
+          if (conflict) {
+            this.showMergeConflict(document, manager.documentSync, content);
           }
         }
         break;
@@ -129,6 +498,115 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
         // Webview is ready, send initial content
         break;
 
+      case 'acceptExternalChange':
+      case 'acceptAllExternalChanges': {
+        if (message.type === 'acceptAllExternalChanges') {
+          manager.externalChanges.acceptAll();
+        } else if (typeof message.hunkId === 'number') {
+          manager.externalChanges.accept(message.hunkId);
+        }
+        manager.documentSync.panels.forEach((panel) => panel.postExternalChanges());
+        break;
+      }
+
+      case 'revertExternalChange':
+      case 'revertAllExternalChanges': {
+        const hunkIds =
+          message.type === 'revertAllExternalChanges'
+            ? manager.externalChanges.getHunks().map((hunk) => hunk.id)
+            : typeof message.hunkId === 'number'
+              ? [message.hunkId]
+              : [];
+        await this.revertExternalChanges(document, manager, hunkIds);
+        break;
+      }
+
+      case 'openWikiLink':
+        if (typeof message.target === 'string') {
+          await this.openWikiLink(document, message.target, message.heading ?? '');
+        }
+        break;
+
+      case 'requestWikiLinkHeadings':
+        if (typeof message.target === 'string') {
+          const uri = await this.wikiLinkIndex.resolve(message.target, document.uri);
+          webview.postMessage({
+            type: 'wikiLinkHeadings',
+            target: message.target,
+            headings: uri ? (await this.wikiLinkIndex.getHeadings(uri)).map((h) => h.text) : [],
+          });
+        }
+        break;
+
+      case 'outline':
+        if (Array.isArray(message.headings)) {
+          this.outlineView.setHeadings(document.uri, message.headings);
+        }
+        break;
+
+      case 'sourceLocation':
+        if (typeof message.requestId === 'number') {
+          this.webviewRequests.get(message.requestId)?.(message.location);
+        }
+        break;
+
+      case 'exportedHtml':
+        if (typeof message.requestId === 'number') {
+          this.webviewRequests.get(message.requestId)?.(message.export);
+        }
+        break;
+
+      case 'richTextCopied':
+        if (message.copied) {
+          vscode.window.setStatusBarMessage('Copied as rich text', 3000);
+        } else {
+          vscode.window.showErrorMessage('Could not copy the rendered document to the clipboard.');
+        }
+        break;
+
+      case 'renderedScroll':
+        if (typeof message.line === 'number') {
+          this.sideBySide.renderedScrolled(document, message.line);
+        }
+        break;
+
+      case 'renderedCursor':
+        if (typeof message.line === 'number') {
+          this.sideBySide.renderedCursorMoved(document, message.line);
+        }
+        break;
+
+      case 'outlineActive': {
+        // With several panels of a document, the tree follows the one being edited
+        const followed = manager.webviewPanel.active || manager.documentSync.panels.size === 1;
+        if (typeof message.index === 'number' && followed) {
+          this.outlineView.setActiveHeading(document.uri, message.index);
+        }
+        break;
+      }
+
+      case 'saveImage':
+        if (typeof message.requestId === 'number' && message.data) {
+          try {
+            const path = await saveImageAsset(document, {
+              name: message.name ?? '',
+              mimeType: message.mimeType ?? '',
+              data: message.data instanceof Uint8Array ? message.data : new Uint8Array(message.data),
+            });
+            webview.postMessage({ type: 'imageSaved', requestId: message.requestId, path });
+          } catch (e) {
+            webview.postMessage({ type: 'imageSaveFailed', requestId: message.requestId });
+            vscode.window.showErrorMessage(e instanceof Error ? e.message : String(e));
+          }
+        }
+        break;
+
+      case 'openRelativeLink':
+        if (typeof message.href === 'string' && message.href.trim()) {
+          await this.openRelativeLink(document, message.href.trim());
+        }
+        break;
+
       case 'openExternalLink':
         if (typeof message.href === 'string') {
           const href = message.href.trim();
@@ -163,7 +641,7 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; img-src ${webview.cspSource} https: data:; script-src 'nonce-${nonce}' ${webview.cspSource}; font-src ${webview.cspSource};">
   <link href="${styleUri}" rel="stylesheet">
   <title>Markdown Live Render</title>
 </head>
@@ -180,8 +658,13 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
     <span class="toolbar-separator"></span>
     <button id="btn-bullet-list" title="Bullet List">• List</button>
     <button id="btn-ordered-list" title="Numbered List">1. List</button>
+    <button id="btn-task-list" title="Task List (Cmd+Shift+9)">☑ Tasks</button>
     <span class="toolbar-separator"></span>
     <button id="btn-blockquote" title="Blockquote (Cmd+Shift+.)">❝</button>
+    <div class="toolbar-dropdown" id="callout-dropdown">
+      <button id="btn-callout" title="Insert or change callout">ℹ ▾</button>
+      <div class="dropdown-content callout-type-list" id="callout-type-list"></div>
+    </div>
     <button id="btn-codeblock" title="Code Block (Cmd+Shift+\`)">{ }</button>
     <button id="btn-link" title="Link (Cmd+K)">🔗</button>
     <button id="btn-hr" title="Horizontal Rule">—</button>
@@ -193,6 +676,42 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
         <div class="grid-label" id="grid-label">Select size</div>
       </div>
     </div>
+    <span class="toolbar-separator"></span>
+    <button id="btn-review" title="Review external changes">Review <span id="review-count" class="toolbar-badge" style="display: none;">0</span></button>
+    <span id="task-progress" class="task-progress" title="Tasks done in this document" style="display: none;"></span>
+  </div>
+  <!-- Review panel for changes made by external writers (e.g. AI agents) -->
+  <div id="review-panel" class="review-panel" style="display: none;">
+    <div class="review-header">
+      <span class="review-title">External changes</span>
+      <span class="review-header-actions">
+        <button id="review-accept-all">Accept all</button>
+        <button id="review-revert-all" class="danger">Revert all</button>
+        <button id="review-close" title="Close">✕</button>
+      </span>
+    </div>
+    <div id="review-list" class="review-list"></div>
+  </div>
+  <!-- Find and replace bar (Cmd+F / Cmd+H) -->
+  <div id="find-bar" class="find-bar" style="display: none;">
+    <button id="find-toggle-replace" class="find-toggle-replace" title="Toggle Replace">▶</button>
+    <div class="find-fields">
+      <div class="find-row">
+        <input id="find-input" type="text" placeholder="Find" spellcheck="false">
+        <button id="find-case" class="find-option" title="Match Case">Aa</button>
+        <button id="find-word" class="find-option" title="Match Whole Word">ab</button>
+        <button id="find-regex" class="find-option" title="Use Regular Expression">.*</button>
+        <span id="find-count" class="find-count"></span>
+        <button id="find-prev" title="Previous Match (Shift+Enter)">↑</button>
+        <button id="find-next" title="Next Match (Enter)">↓</button>
+        <button id="find-close" title="Close (Escape)">✕</button>
+      </div>
+      <div id="find-replace-row" class="find-row" style="display: none;">
+        <input id="replace-input" type="text" placeholder="Replace" spellcheck="false">
+        <button id="replace-one" title="Replace (Enter)">Replace</button>
+        <button id="replace-all" title="Replace All (Cmd+Alt+Enter)">All</button>
+      </div>
+    </div>
   </div>
   <!-- Table context menu for row operations -->
   <div id="table-context-menu" class="context-menu" style="display: none;">
@@ -223,7 +742,7 @@ export class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
   <div id="editor-container">
     <div id="editor"></div>
   </div>
-  <script nonce="${nonce}" src="${scriptUri}"></script>
+  <script type="module" nonce="${nonce}" src="${scriptUri}"></script>
 </body>
 </html>`;
   }
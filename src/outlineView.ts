@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+
+const VIEW_ID = 'markdownLiveRender.outline';
+const REVEAL_COMMAND = 'markdownLiveRender.revealHeading';
+const CONTEXT_KEY = 'markdownLiveRender.outlineAvailable';
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+}
+
+class OutlineItem extends vscode.TreeItem {
+  public readonly children: OutlineItem[] = [];
+
+  constructor(
+    public readonly uri: vscode.Uri,
+    public readonly index: number,
+    public readonly level: number,
+    text: string,
+    public readonly parent: OutlineItem | undefined
+  ) {
+    super(text || '(empty heading)', vscode.TreeItemCollapsibleState.None);
+    this.id = `${uri.toString()}#${index}`;
+    this.iconPath = new vscode.ThemeIcon('symbol-string');
+    this.command = { command: REVEAL_COMMAND, title: 'Go to Heading', arguments: [uri, index] };
+  }
+}
+
+/**
+ * Explorer tree of the active rendered document's headings. The webview reports its headings
+ * (so the tree matches what is rendered, callouts and all) and the heading under the cursor,
+ * which is selected in the tree as the cursor moves.
+ */
+export class OutlineView implements vscode.TreeDataProvider<OutlineItem>, vscode.Disposable {
+  private readonly outlines = new Map<string, OutlineItem[]>();
+  private readonly activeHeadings = new Map<string, number>();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly selectEmitter = new vscode.EventEmitter<{ uri: vscode.Uri; index: number }>();
+  private readonly treeView: vscode.TreeView<OutlineItem>;
+  private readonly disposables: vscode.Disposable[] = [];
+  private activeUri: vscode.Uri | undefined;
+
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+  /** Fired when a heading is clicked in the tree. */
+  public readonly onDidSelectHeading = this.selectEmitter.event;
+
+  constructor() {
+    this.treeView = vscode.window.createTreeView(VIEW_ID, { treeDataProvider: this });
+    this.disposables.push(
+      this.treeView,
+      this.changeEmitter,
+      this.selectEmitter,
+      vscode.commands.registerCommand(REVEAL_COMMAND, (uri: vscode.Uri, index: number) =>
+        this.selectEmitter.fire({ uri, index })
+      ),
+      this.treeView.onDidChangeVisibility((e) => {
+        if (e.visible) this.revealActiveHeading();
+      })
+    );
+  }
+
+  /** The rendered document whose outline is shown; undefined hides the view. */
+  public setActiveDocument(uri: vscode.Uri | undefined) {
+    if (uri?.toString() === this.activeUri?.toString()) return;
+    this.activeUri = uri;
+    vscode.commands.executeCommand('setContext', CONTEXT_KEY, uri !== undefined);
+    this.changeEmitter.fire();
+    this.revealActiveHeading();
+  }
+
+  public isActiveDocument(uri: vscode.Uri): boolean {
+    return this.activeUri?.toString() === uri.toString();
+  }
+
+  public setHeadings(uri: vscode.Uri, headings: OutlineHeading[]) {
+    const items: OutlineItem[] = [];
+    const open: OutlineItem[] = [];
+    headings.forEach((heading, index) => {
+      while (open.length && open[open.length - 1].level >= heading.level) open.pop();
+      const parent = open[open.length - 1];
+      const item = new OutlineItem(uri, index, heading.level, heading.text, parent);
+      if (parent) {
+        parent.children.push(item);
+        parent.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+      }
+      items.push(item);
+      open.push(item);
+    });
+    this.outlines.set(uri.toString(), items);
+    if (this.isActiveDocument(uri)) {
+      this.changeEmitter.fire();
+      this.revealActiveHeading();
+    }
+  }
+
+  public setActiveHeading(uri: vscode.Uri, index: number) {
+    this.activeHeadings.set(uri.toString(), index);
+    if (this.isActiveDocument(uri)) this.revealActiveHeading();
+  }
+
+  public clear(uri: vscode.Uri) {
+    this.outlines.delete(uri.toString());
+    this.activeHeadings.delete(uri.toString());
+    if (this.isActiveDocument(uri)) this.setActiveDocument(undefined);
+  }
+
+  private revealActiveHeading() {
+    if (!this.activeUri || !this.treeView.visible) return;
+    const key = this.activeUri.toString();
+    const item = this.outlines.get(key)?.[this.activeHeadings.get(key) ?? -1];
+    if (item) this.treeView.reveal(item, { select: true, focus: false }).then(undefined, () => undefined);
+  }
+
+  public getTreeItem(item: OutlineItem): vscode.TreeItem {
+    return item;
+  }
+
+  public getChildren(item?: OutlineItem): OutlineItem[] {
+    if (item) return item.children;
+    if (!this.activeUri) return [];
+    return (this.outlines.get(this.activeUri.toString()) ?? []).filter((heading) => !heading.parent);
+  }
+
+  public getParent(item: OutlineItem): OutlineItem | undefined {
+    return item.parent;
+  }
+
+  public dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.outlines.clear();
+  }
+}
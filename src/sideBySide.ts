@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+
+// Programmatic scrolls echo back as scroll events; ignore them for this long.
+const SCROLL_ECHO_MS = 200;
+
+interface RenderedView {
+  document: vscode.TextDocument;
+  webview: vscode.Webview;
+  sourceVisible: boolean;
+}
+
+/**
+ * Keeps a rendered view and text editors showing the same document in step while both are
+ * visible: scrolling either side scrolls the other to the same source line, and each side
+ * highlights the line the other side's cursor is on. Edits already flow through the normal sync
+ * path, so only positions are exchanged here.
+ */
+export class SideBySideSync implements vscode.Disposable {
+  // Rendered views of each document in the order they opened; the last one is synced.
+  private readonly views = new Map<string, RenderedView[]>();
+  private readonly ignoreSourceScrollUntil = new Map<string, number>();
+  private readonly cursorDecoration = vscode.window.createTextEditorDecorationType({
+    isWholeLine: true,
+    backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+  });
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.disposables.push(
+      this.cursorDecoration,
+      vscode.window.onDidChangeVisibleTextEditors(() => {
+        this.views.forEach((views) => this.postSourceVisible(views[views.length - 1]));
+      }),
+      vscode.window.onDidChangeTextEditorVisibleRanges((e) => {
+        const key = e.textEditor.document.uri.toString();
+        const view = this.syncedView(key);
+        const range = e.visibleRanges[0];
+        if (!view || !range || Date.now() < (this.ignoreSourceScrollUntil.get(key) ?? 0)) return;
+        view.webview.postMessage({ type: 'sourceScroll', line: range.start.line });
+      }),
+      vscode.window.onDidChangeTextEditorSelection((e) => {
+        const view = this.syncedView(e.textEditor.document.uri.toString());
+        if (view) view.webview.postMessage({ type: 'sourceCursor', line: e.selections[0].active.line });
+      })
+    );
+  }
+
+  /** Starts syncing a rendered view with text editors of its document; dispose to stop. */
+  public attach(document: vscode.TextDocument, webview: vscode.Webview): vscode.Disposable {
+    const key = document.uri.toString();
+    const views = this.views.get(key) ?? [];
+    const previous = views[views.length - 1];
+    if (previous) this.setSourceVisible(previous, false);
+    const view: RenderedView = { document, webview, sourceVisible: false };
+    views.push(view);
+    this.views.set(key, views);
+    this.postSourceVisible(view);
+
+    return new vscode.Disposable(() => {
+      const remaining = (this.views.get(key) ?? []).filter((other) => other !== view);
+      if (remaining.length) {
+        this.views.set(key, remaining);
+        this.postSourceVisible(remaining[remaining.length - 1]);
+        return;
+      }
+      this.views.delete(key);
+      this.ignoreSourceScrollUntil.delete(key);
+      this.sourceEditors(document).forEach((editor) => editor.setDecorations(this.cursorDecoration, []));
+    });
+  }
+
+  /** The rendered view scrolled so `line` is at its top. */
+  public renderedScrolled(document: vscode.TextDocument, line: number) {
+    const editors = this.sourceEditors(document);
+    if (!editors.length) return;
+    this.ignoreSourceScrollUntil.set(document.uri.toString(), Date.now() + SCROLL_ECHO_MS);
+    const range = new vscode.Range(line, 0, line, 0);
+    editors.forEach((editor) => editor.revealRange(range, vscode.TextEditorRevealType.AtTop));
+  }
+
+  /** The rendered view's cursor moved to `line`. */
+  public renderedCursorMoved(document: vscode.TextDocument, line: number) {
+    const range = new vscode.Range(line, 0, line, 0);
+    this.sourceEditors(document).forEach((editor) => editor.setDecorations(this.cursorDecoration, [range]));
+  }
+
+  private syncedView(key: string): RenderedView | undefined {
+    const views = this.views.get(key);
+    return views?.[views.length - 1];
+  }
+
+  private sourceEditors(document: vscode.TextDocument): vscode.TextEditor[] {
+    return vscode.window.visibleTextEditors.filter(
+      (editor) => editor.document.uri.toString() === document.uri.toString()
+    );
+  }
+
+  /** Tells the rendered view whether a text editor shows its document, and where it is. */
+  private postSourceVisible(view: RenderedView) {
+    const editor = this.sourceEditors(view.document)[0];
+    if (Boolean(editor) === view.sourceVisible) return;
+    this.setSourceVisible(view, Boolean(editor));
+    if (!editor) return;
+    const top = editor.visibleRanges[0];
+    if (top) view.webview.postMessage({ type: 'sourceScroll', line: top.start.line });
+    view.webview.postMessage({ type: 'sourceCursor', line: editor.selection.active.line });
+  }
+
+  private setSourceVisible(view: RenderedView, visible: boolean) {
+    view.sourceVisible = visible;
+    view.webview.postMessage({ type: 'sourceEditorVisible', visible });
+  }
+
+  public dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.views.clear();
+  }
+}
@@ -1,17 +1,112 @@
 import * as vscode from 'vscode';
+import { ExternalChangeTracker } from './externalChangeTracker';
+import { MergeResult, mergeTextChanges } from './textDiff';
 
+const MAX_VERSION_SNAPSHOTS = 50;
+
+/**
+ * State shared by every rendered panel of one document: the review list of external changes
+ * and which document changes were made by the extension itself.
+ */
+export class DocumentSync {
+  public readonly externalChanges: ExternalChangeTracker;
+  public readonly panels = new Set<SyncManager>();
+  // Edits made by the extension (panel edits and review reverts) that have not settled yet. Kept
+  // here rather than on the panels so an edit still counts after its panel has closed.
+  private pendingEdits = 0;
+  private changeSubscription: vscode.Disposable;
+
+  constructor(private readonly document: vscode.TextDocument) {
+    this.externalChanges = new ExternalChangeTracker(document.getText());
+    this.changeSubscription = vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.document.uri.toString() === document.uri.toString()) this.documentChanged();
+    });
+  }
+
+  /** Whether the change being applied came from one of the panels (or a review revert). */
+  public isInternalChange(): boolean {
+    return this.pendingEdits > 0;
+  }
+
+  /** The panel that requests for the document go to: the active one, else the last opened. */
+  public primaryPanel(): SyncManager | undefined {
+    const panels = [...this.panels];
+    return panels.find((panel) => panel.webviewPanel.active) ?? panels[panels.length - 1];
+  }
+
+  /**
+   * Runs `apply` as an edit of the extension's own, so the changes it causes are not recorded as
+   * external. An edit made in `panel` is not echoed back to it; the panel is caught up once the
+   * edit settles instead.
+   */
+  public async applyEdit(apply: () => Thenable<unknown>, panel?: SyncManager): Promise<void> {
+    this.pendingEdits++;
+    if (panel) panel.isInternalChange = true;
+    try {
+      await apply();
+    } finally {
+      // Released on the next tick because VS Code can fire additional change events after
+      // applyEdit resolves.
+      setTimeout(() => {
+        this.pendingEdits--;
+        if (panel) {
+          panel.isInternalChange = false;
+          // Changes from elsewhere that landed while the edit was applied were skipped for this
+          // panel; a no-op when nothing else changed.
+          panel.updateWebview();
+        }
+      }, 0);
+    }
+  }
+
+  /** Records a document change and sends it to every panel that did not make it. */
+  private documentChanged() {
+    this.externalChanges.recordChange(this.document.getText(), !this.isInternalChange());
+    this.panels.forEach((panel) => {
+      panel.postExternalChanges();
+      if (!panel.isInternalChange) panel.updateWebview();
+    });
+  }
+
+  public dispose() {
+    this.changeSubscription.dispose();
+  }
+}
+
+/**
+ * Sync state of one rendered panel. Each panel has its own versions and pending edits, so
+ * several panels of a document each receive every change they did not make themselves.
+ */
 export class SyncManager {
+  // Set while this panel's own edit is applied, so it is not echoed back to this panel.
   public isInternalChange = false;
+  // Content this panel's webview is known to have, so redundant updates are skipped.
+  public lastSentContent: string | undefined;
   private lastKnownVersion: number;
+  // Document text for each version posted to the webview, so edits can be rebased from their base.
+  private versionSnapshots = new Map<number, string>();
+  // Edits sent before the webview applies another update share a base version; each one builds
+  // on the content of the previous edit rather than on the snapshot.
+  private lastWebviewEdit: { baseVersion: number; content: string } | null = null;
   private disposables: vscode.Disposable[] = [];
+  private disposed = false;
 
   constructor(
     private readonly document: vscode.TextDocument,
-    _webviewPanel: vscode.WebviewPanel
+    public readonly webviewPanel: vscode.WebviewPanel,
+    public readonly documentSync: DocumentSync
   ) {
     this.lastKnownVersion = document.version;
   }
 
+  public get webview(): vscode.Webview {
+    return this.webviewPanel.webview;
+  }
+
+  public get externalChanges(): ExternalChangeTracker {
+    return this.documentSync.externalChanges;
+  }
+
   public updateVersion(version: number) {
     this.lastKnownVersion = version;
   }
@@ -20,8 +115,78 @@ export class SyncManager {
     return this.lastKnownVersion;
   }
 
+  /**
+   * Records the text of a document version the webview has been sent.
+   */
+  public recordSentVersion(version: number, content: string) {
+    this.updateVersion(version);
+    this.versionSnapshots.set(version, content);
+    if (this.versionSnapshots.size > MAX_VERSION_SNAPSHOTS) {
+      const oldest = this.versionSnapshots.keys().next().value;
+      if (oldest !== undefined) this.versionSnapshots.delete(oldest);
+    }
+  }
+
+  /**
+   * Returns the text a webview edit was made against, or undefined if it is no longer known.
+   */
+  public getBaseText(baseVersion: number): string | undefined {
+    if (this.lastWebviewEdit && this.lastWebviewEdit.baseVersion === baseVersion) {
+      return this.lastWebviewEdit.content;
+    }
+    return this.versionSnapshots.get(baseVersion);
+  }
+
+  public recordWebviewEdit(baseVersion: number, content: string) {
+    this.lastWebviewEdit = { baseVersion, content };
+  }
+
+  /**
+   * Rebases an edit made against `baseVersion` onto `currentText`, so neither side's concurrent
+   * changes are overwritten. `conflict` is set when the edit could not be applied.
+   */
+  public rebaseEdit(content: string, baseVersion: number | undefined, currentText: string): MergeResult {
+    if (baseVersion === undefined) return { text: content, conflict: false };
+    const baseText = this.getBaseText(baseVersion);
+    this.recordWebviewEdit(baseVersion, content);
+    if (baseText === undefined) {
+      // The base snapshot was evicted, so the edit can't be rebased; keep the document rather
+      // than overwrite whatever changed since.
+      return { text: currentText, conflict: currentText !== content };
+    }
+    if (baseText === currentText) return { text: content, conflict: false };
+    return mergeTextChanges(baseText, content, currentText);
+  }
+
+  /** Sends the document to the webview unless it already has this content. */
+  public updateWebview() {
+    const content = this.document.getText();
+    if (this.disposed || this.lastSentContent === content) return;
+
+    this.lastSentContent = content;
+    this.recordSentVersion(this.document.version, content);
+    this.webview.postMessage({
+      type: 'update',
+      content,
+      version: this.document.version,
+      preserveSourceFormatting: vscode.workspace
+        .getConfiguration('markdownLiveRender', this.document.uri)
+        .get<boolean>('preserveSourceFormatting', true),
+    });
+  }
+
+  public postExternalChanges() {
+    if (this.disposed) return;
+    this.webview.postMessage({
+      type: 'externalChanges',
+      hunks: this.externalChanges.getSummaries(),
+    });
+  }
+
   public dispose() {
+    this.disposed = true;
     this.disposables.forEach((d) => d.dispose());
     this.disposables = [];
+    this.versionSnapshots.clear();
   }
 }
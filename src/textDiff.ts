@@ -0,0 +1,136 @@
+import DiffMatchPatch from 'diff-match-patch';
+
+/**
+ * A replacement expressed in character offsets of the original text.
+ */
+export interface TextChange {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const dmp = new DiffMatchPatch();
+// Whole-document diffs of long files should never stall the extension host.
+dmp.Diff_Timeout = 0.5;
+
+/**
+ * Computes the smallest set of non-overlapping replacements that turn `oldText` into `newText`.
+ * Adjacent delete/insert runs are merged into a single replacement so each change maps cleanly
+ * onto one WorkspaceEdit range.
+ */
+export function computeTextChanges(oldText: string, newText: string): TextChange[] {
+  if (oldText === newText) {
+    return [];
+  }
+
+  const diffs = dmp.diff_main(oldText, newText);
+  dmp.diff_cleanupEfficiency(diffs);
+  return diffsToChanges(diffs);
+}
+
+/**
+ * Like computeTextChanges, but every replacement covers whole lines. Used where changes are
+ * shown to the user, since character-level hunks are hard to read as review units.
+ */
+export function computeLineChanges(oldText: string, newText: string): TextChange[] {
+  if (oldText === newText) {
+    return [];
+  }
+
+  const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(oldText, newText);
+  const diffs = dmp.diff_main(chars1, chars2, false);
+  dmp.diff_charsToLines_(diffs, lineArray);
+  return diffsToChanges(diffs);
+}
+
+function diffsToChanges(diffs: DiffMatchPatch.Diff[]): TextChange[] {
+  const changes: TextChange[] = [];
+  let offset = 0;
+  let pending: TextChange | null = null;
+
+  for (const [op, text] of diffs) {
+    if (op === DiffMatchPatch.DIFF_EQUAL) {
+      if (pending) {
+        changes.push(pending);
+        pending = null;
+      }
+      offset += text.length;
+      continue;
+    }
+
+    if (!pending) {
+      pending = { start: offset, end: offset, text: '' };
+    }
+
+    if (op === DiffMatchPatch.DIFF_DELETE) {
+      offset += text.length;
+      pending.end = offset;
+    } else {
+      pending.text += text;
+    }
+  }
+
+  if (pending) {
+    changes.push(pending);
+  }
+
+  return changes;
+}
+
+export interface MergeResult {
+  text: string;
+  conflict: boolean;
+}
+
+/**
+ * Three-way merges two revisions of `base`. Changes from both sides are applied when they touch
+ * disjoint ranges; overlapping changes (or insertions at the same offset) are a conflict, in
+ * which case `text` is `theirs` unchanged.
+ */
+export function mergeTextChanges(base: string, ours: string, theirs: string): MergeResult {
+  if (ours === base || ours === theirs) {
+    return { text: theirs, conflict: false };
+  }
+  if (theirs === base) {
+    return { text: ours, conflict: false };
+  }
+
+  const ourChanges = computeTextChanges(base, ours);
+  const theirChanges = computeTextChanges(base, theirs);
+  const merged: TextChange[] = [];
+
+  let i = 0;
+  let j = 0;
+  while (i < ourChanges.length || j < theirChanges.length) {
+    const a = ourChanges[i];
+    const b = theirChanges[j];
+    if (a && b) {
+      if (a.start === b.start && a.end === b.end && a.text === b.text) {
+        // Both sides made the same change.
+        merged.push(a);
+        i++;
+        j++;
+        continue;
+      }
+      if (a.start === b.start || (a.start < b.end && b.start < a.end)) {
+        return { text: theirs, conflict: true };
+      }
+    }
+    if (!b || (a && a.start < b.start)) {
+      merged.push(a);
+      i++;
+    } else {
+      merged.push(b);
+      j++;
+    }
+  }
+
+  let text = '';
+  let offset = 0;
+  for (const change of merged) {
+    text += base.slice(offset, change.start) + change.text;
+    offset = change.end;
+  }
+  text += base.slice(offset);
+  return { text, conflict: false };
+}
@@ -0,0 +1,55 @@
+import type { Node as ProseNode } from '@milkdown/prose/model';
+import { TextSelection } from '@milkdown/prose/state';
+import type { EditorView } from '@milkdown/prose/view';
+
+/**
+ * Heading anchors as GitHub and VS Code's markdown preview generate them, so `[text](#some-heading)`
+ * and `other.md#some-heading` links written for those renderers land on the same heading here.
+ */
+
+/** Lowercase, punctuation dropped, spaces to dashes: `Hello, World!` → `hello-world`. */
+export function headingSlug(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+    .replace(/ /g, '-');
+}
+
+/** Position of every heading with its slug; repeated slugs get `-1`, `-2`, … suffixes. */
+export function headingAnchors(doc: ProseNode): { slug: string; text: string; level: number; pos: number }[] {
+  const anchors: { slug: string; text: string; level: number; pos: number }[] = [];
+  const seen = new Map<string, number>();
+  doc.descendants((node, pos) => {
+    if (node.type.name === 'heading') {
+      const base = headingSlug(node.textContent);
+      const count = seen.get(base) ?? 0;
+      seen.set(base, count + 1);
+      anchors.push({ slug: count ? `${base}-${count}` : base, text: node.textContent, level: node.attrs.level, pos });
+    }
+    return node.isBlock;
+  });
+  return anchors;
+}
+
+/**
+ * Moves the cursor to the heading named by `anchor` and scrolls it into view. The anchor may be
+ * a slug (`#getting-started`) or the heading text itself, as wikilinks write it. Returns whether
+ * a heading was found.
+ */
+export function scrollToAnchor(view: EditorView, anchor: string): boolean {
+  const wanted = anchor.trim().replace(/^#/, '');
+  if (!wanted) return false;
+
+  const anchors = headingAnchors(view.state.doc);
+  const lower = wanted.toLowerCase();
+  const match =
+    anchors.find((heading) => heading.text.trim().toLowerCase() === lower) ??
+    anchors.find((heading) => heading.slug === lower) ??
+    anchors.find((heading) => heading.slug === headingSlug(wanted));
+  if (!match) return false;
+
+  view.dispatch(view.state.tr.setSelection(TextSelection.near(view.state.doc.resolve(match.pos + 1))).scrollIntoView());
+  view.focus();
+  return true;
+}
@@ -0,0 +1,349 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
+import { findWrapping, liftTarget } from '@milkdown/prose/transform';
+import type { EditorView, NodeView } from '@milkdown/prose/view';
+import { $command, $nodeSchema, $remark, $view } from '@milkdown/utils';
+import { escapeHtml } from '../utils';
+
+/**
+ * Obsidian callouts: a blockquote whose first line is `[!type]`, optionally followed by a fold
+ * marker (`+` expanded, `-` collapsed) and a title. Parsed into a `callout` node and written back
+ * in the same syntax.
+ */
+
+interface CalloutStyle {
+  icon: string;
+  color: string;
+  aliases: string[];
+}
+
+/** Obsidian's built-in types; aliases share the style of their group. */
+export const CALLOUT_TYPES: Record<string, CalloutStyle> = {
+  note: { icon: '✎', color: 'blue', aliases: [] },
+  abstract: { icon: '≡', color: 'cyan', aliases: ['summary', 'tldr'] },
+  info: { icon: 'ℹ', color: 'blue', aliases: [] },
+  todo: { icon: '☑', color: 'blue', aliases: [] },
+  tip: { icon: '🔥', color: 'cyan', aliases: ['hint', 'important'] },
+  success: { icon: '✓', color: 'green', aliases: ['check', 'done'] },
+  question: { icon: '?', color: 'yellow', aliases: ['help', 'faq'] },
+  warning: { icon: '⚠', color: 'orange', aliases: ['caution', 'attention'] },
+  failure: { icon: '✕', color: 'red', aliases: ['fail', 'missing'] },
+  danger: { icon: '⚡', color: 'red', aliases: ['error'] },
+  bug: { icon: '🐞', color: 'red', aliases: [] },
+  example: { icon: '☰', color: 'purple', aliases: [] },
+  quote: { icon: '❝', color: 'gray', aliases: ['cite'] },
+};
+
+const CALLOUT_HEADER = /^\[!([\w-]+)\]([+-]?)[ \t]*(.*)$/;
+
+function styleOf(type: string): CalloutStyle {
+  const key = type.toLowerCase();
+  return (
+    CALLOUT_TYPES[key] ??
+    Object.values(CALLOUT_TYPES).find((style) => style.aliases.includes(key)) ??
+    CALLOUT_TYPES.note
+  );
+}
+
+function defaultTitle(type: string): string {
+  return type.charAt(0).toUpperCase() + type.slice(1).toLowerCase();
+}
+
+interface MdNode {
+  type: string;
+  value?: string;
+  children?: MdNode[];
+  position?: { start: { offset?: number }; end: { offset?: number } };
+  [key: string]: unknown;
+}
+
+/**
+ * Splits a paragraph's inline children after its first line break. Returns null when the
+ * paragraph is a single line.
+ */
+function childrenAfterFirstLine(children: MdNode[]): MdNode[] | null {
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i];
+    if (child.type === 'break') return children.slice(i + 1);
+    if (child.type !== 'text' || !child.value?.includes('\n')) continue;
+
+    const rest = child.value.slice(child.value.indexOf('\n') + 1);
+    return [...(rest ? [{ type: 'text', value: rest }] : []), ...children.slice(i + 1)];
+  }
+  return null;
+}
+
+function transformCallouts(node: MdNode, source: string) {
+  node.children?.forEach((child) => transformCallouts(child, source));
+  if (node.type !== 'blockquote') return;
+
+  const first = node.children?.[0];
+  const start = first?.position?.start.offset;
+  const end = first?.position?.end.offset;
+  if (first?.type !== 'paragraph' || start === undefined || end === undefined) return;
+
+  const text = source.slice(start, end);
+  const newline = text.indexOf('\n');
+  const header = (newline === -1 ? text : text.slice(0, newline)).match(CALLOUT_HEADER);
+  if (!header) return;
+
+  const rest = childrenAfterFirstLine(first.children ?? []);
+  const body = node.children!.slice(1);
+  node.type = 'callout';
+  node.calloutType = header[1];
+  node.fold = header[2];
+  node.title = header[3].trimEnd();
+  // Body text on the line right after the header, rather than after a `>` blank line.
+  node.compact = rest !== null;
+  node.children = rest && rest.length > 0 ? [{ type: 'paragraph', children: rest }, ...body] : body;
+  if (node.children.length === 0) {
+    // A title-only callout still needs a block to hold the cursor.
+    node.children = [{ type: 'paragraph', children: [] }];
+  }
+}
+
+export const remarkCallout = $remark('remarkCallout', () => () => (tree, file) => {
+  transformCallouts(tree as MdNode, String(file.value));
+});
+
+export const calloutSchema = $nodeSchema('callout', () => ({
+  content: 'block+',
+  group: 'block',
+  defining: true,
+  attrs: {
+    type: { default: 'note' },
+    fold: { default: '' },
+    title: { default: '' },
+    compact: { default: true },
+  },
+  parseDOM: [
+    {
+      tag: 'div[data-type="callout"]',
+      contentElement: '.callout-content',
+      getAttrs: (dom) => ({
+        type: (dom as HTMLElement).dataset.callout ?? 'note',
+        fold: (dom as HTMLElement).dataset.fold ?? '',
+        title: (dom as HTMLElement).dataset.title ?? '',
+      }),
+    },
+  ],
+  toDOM: (node) => [
+    'div',
+    {
+      'data-type': 'callout',
+      'data-callout': node.attrs.type,
+      'data-fold': node.attrs.fold,
+      'data-title': node.attrs.title,
+    },
+    ['div', { class: 'callout-content' }, 0],
+  ],
+  parseMarkdown: {
+    match: ({ type }) => type === 'callout',
+    runner: (state, node, type) => {
+      state.openNode(type, {
+        type: node.calloutType as string,
+        fold: node.fold as string,
+        title: node.title as string,
+        compact: node.compact as boolean,
+      });
+      state.next(node.children);
+      state.closeNode();
+    },
+  },
+  toMarkdown: {
+    match: (node) => node.type.name === 'callout',
+    runner: (state, node) => {
+      const { type, fold, title, compact } = node.attrs;
+      // Raw html keeps the `[!type]` brackets from being escaped.
+      const header = `[!${type}]${fold}${title ? ` ${title}` : ''}`;
+      const blocks: ProseNode[] = [];
+      node.forEach((child) => blocks.push(child));
+      const first = blocks[0];
+      const merge = compact && first?.type.name === 'paragraph' && first.content.size > 0;
+      const body = blocks.filter((child, i) => !(i === 0 && (merge || child.content.size === 0)));
+
+      state.openNode('blockquote');
+      state.openNode('paragraph').addNode('html', undefined, header);
+      if (merge) {
+        state.addNode('text', undefined, '\n');
+        state.next(first.content);
+      }
+      state.closeNode();
+      body.forEach((child) => state.next(child));
+      state.closeNode();
+    },
+  },
+}));
+
+function renderHeader(header: HTMLElement, node: ProseNode) {
+  const style = styleOf(node.attrs.type);
+  header.innerHTML = `
+    <span class="callout-icon">${escapeHtml(style.icon)}</span>
+    <span class="callout-title">${escapeHtml(node.attrs.title || defaultTitle(node.attrs.type))}</span>
+    ${node.attrs.fold ? '<span class="callout-fold">▾</span>' : ''}`;
+}
+
+function createCalloutView(initial: ProseNode, view: EditorView, getPos: () => number | undefined): NodeView {
+  const dom = document.createElement('div');
+  dom.className = 'callout';
+  dom.dataset.type = 'callout';
+  const header = document.createElement('div');
+  header.className = 'callout-header';
+  header.contentEditable = 'false';
+  const content = document.createElement('div');
+  content.className = 'callout-content';
+  dom.append(header, content);
+
+  let node = initial;
+  let collapsed = node.attrs.fold === '-';
+
+  const sync = () => {
+    const style = styleOf(node.attrs.type);
+    dom.dataset.callout = node.attrs.type.toLowerCase();
+    dom.dataset.color = style.color;
+    dom.classList.toggle('is-foldable', Boolean(node.attrs.fold));
+    dom.classList.toggle('is-collapsed', Boolean(node.attrs.fold) && collapsed);
+    renderHeader(header, node);
+  };
+
+  const editingTitle = () => header.querySelector('.callout-title[contenteditable]') as HTMLElement | null;
+
+  const commitTitle = (commit: boolean) => {
+    const titleEl = editingTitle();
+    if (!titleEl) return;
+    const title = (titleEl.textContent ?? '').replace(/\s+/g, ' ').trim();
+    const pos = getPos();
+    if (commit && pos !== undefined && title !== (node.attrs.title || defaultTitle(node.attrs.type))) {
+      view.dispatch(view.state.tr.setNodeMarkup(pos, undefined, { ...node.attrs, title }));
+    }
+    sync();
+  };
+
+  header.addEventListener('mousedown', (e) => {
+    if (!editingTitle()) e.preventDefault();
+  });
+  header.addEventListener('click', (e) => {
+    e.stopPropagation();
+    if (editingTitle()) return;
+    if (node.attrs.fold) {
+      // Folding is view state only; the `+`/`-` marker in the file is left unchanged.
+      collapsed = !collapsed;
+      sync();
+    }
+  });
+  header.addEventListener('dblclick', (e) => {
+    const titleEl = (e.target as HTMLElement).closest('.callout-title') as HTMLElement | null;
+    if (!titleEl || !view.editable || editingTitle()) return;
+    titleEl.contentEditable = 'plaintext-only';
+    titleEl.focus();
+    document.getSelection()?.selectAllChildren(titleEl);
+    titleEl.addEventListener('blur', () => commitTitle(true), { once: true });
+    titleEl.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' || event.key === 'Escape') {
+        event.preventDefault();
+        if (event.key === 'Escape') titleEl.textContent = node.attrs.title || defaultTitle(node.attrs.type);
+        titleEl.blur();
+      }
+    });
+  });
+
+  sync();
+
+  return {
+    dom,
+    contentDOM: content,
+    update: (next) => {
+      if (next.type !== node.type) return false;
+      if (next.attrs.fold !== node.attrs.fold) collapsed = next.attrs.fold === '-';
+      node = next;
+      if (!editingTitle()) sync();
+      return true;
+    },
+    stopEvent: (event) => header.contains(event.target as Node),
+    ignoreMutation: (mutation) => mutation.type !== 'selection' && header.contains(mutation.target),
+  };
+}
+
+export const calloutView = $view(calloutSchema.node, () => (node, view, getPos) =>
+  createCalloutView(node, view, getPos)
+);
+
+/**
+ * Changes the type of the callout around the selection, or wraps the selected blocks in a new
+ * callout. A null type unwraps the surrounding callout.
+ */
+export const setCalloutCommand = $command('SetCallout', (ctx) => (type: string | null = 'note') => (state, dispatch) => {
+  const calloutType = calloutSchema.type(ctx);
+  const { $from, $to } = state.selection;
+
+  for (let depth = $from.depth; depth > 0; depth--) {
+    const node = $from.node(depth);
+    if (node.type !== calloutType) continue;
+
+    const pos = $from.before(depth);
+    if (type === null) {
+      const range = state.doc.resolve(pos + 1).blockRange(state.doc.resolve(pos + node.nodeSize - 1));
+      const target = range && liftTarget(range);
+      if (range && target !== null && target !== undefined) dispatch?.(state.tr.lift(range, target));
+      return true;
+    }
+    dispatch?.(state.tr.setNodeMarkup(pos, undefined, { ...node.attrs, type }));
+    return true;
+  }
+
+  if (type === null) return false;
+  const range = $from.blockRange($to);
+  const wrapping = range && findWrapping(range, calloutType, { type });
+  if (!range || !wrapping) return false;
+  dispatch?.(state.tr.wrap(range, wrapping).scrollIntoView());
+  return true;
+});
+
+export const callout: MilkdownPlugin[] = [remarkCallout, calloutSchema, calloutView, setCalloutCommand].flat();
+
+// ==========================================================================
+// Toolbar Dropdown
+// ==========================================================================
+
+let calloutDropdownInitialized = false;
+
+/**
+ * Fills the toolbar's callout dropdown. `onSelect` receives the chosen type, or null for
+ * "Remove callout".
+ */
+export function setupCalloutDropdown(onSelect: (type: string | null) => void) {
+  if (calloutDropdownInitialized) return;
+
+  const dropdown = document.getElementById('callout-dropdown');
+  const list = document.getElementById('callout-type-list');
+  const button = document.getElementById('btn-callout');
+  if (!dropdown || !list || !button) return;
+
+  list.innerHTML =
+    Object.entries(CALLOUT_TYPES)
+      .map(
+        ([type, style]) => `
+      <button class="callout-type-option" data-callout-type="${type}" data-color="${style.color}">
+        <span class="callout-icon">${escapeHtml(style.icon)}</span>${escapeHtml(defaultTitle(type))}
+      </button>`
+      )
+      .join('') + '<div class="context-menu-separator"></div><button class="callout-type-option" data-callout-type="">Remove callout</button>';
+
+  button.addEventListener('mousedown', (e) => e.preventDefault());
+  button.addEventListener('click', (e) => {
+    e.stopPropagation();
+    dropdown.classList.toggle('open');
+  });
+  list.addEventListener('mousedown', (e) => e.preventDefault());
+  list.addEventListener('click', (e) => {
+    const option = (e.target as HTMLElement | null)?.closest('[data-callout-type]') as HTMLElement | null;
+    if (!option) return;
+    dropdown.classList.remove('open');
+    onSelect(option.dataset.calloutType || null);
+  });
+  document.addEventListener('click', (e) => {
+    if (!dropdown.contains(e.target as Node)) dropdown.classList.remove('open');
+  });
+
+  calloutDropdownInitialized = true;
+}
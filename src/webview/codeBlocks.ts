@@ -0,0 +1,229 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
+import { Plugin, PluginKey } from '@milkdown/prose/state';
+import { Decoration, DecorationSet, type EditorView, type NodeView } from '@milkdown/prose/view';
+import { codeBlockSchema } from '@milkdown/preset-commonmark';
+import { $prose, $view } from '@milkdown/utils';
+import { common, createLowlight } from 'lowlight';
+import { createMermaidView, isMermaid } from './mermaid';
+
+/**
+ * Fenced code blocks: offline syntax highlighting (highlight.js grammars via lowlight, applied as
+ * decorations so the text stays plain and editable), a language picker that edits the fence's
+ * info string, and a copy button. Languages lowlight doesn't know render as plain text.
+ */
+
+interface HastNode {
+  type: string;
+  value?: string;
+  properties?: { className?: string[] };
+  children?: HastNode[];
+}
+
+interface Token {
+  from: number;
+  to: number;
+  className: string;
+}
+
+const lowlight = createLowlight(common);
+
+/** Picker entries: info string → label. Other info strings are added to a block's picker as-is. */
+const LANGUAGES: [string, string][] = [
+  ['', 'Plain text'],
+  ['bash', 'Bash'],
+  ['c', 'C'],
+  ['cpp', 'C++'],
+  ['csharp', 'C#'],
+  ['css', 'CSS'],
+  ['diff', 'Diff'],
+  ['go', 'Go'],
+  ['graphql', 'GraphQL'],
+  ['html', 'HTML'],
+  ['ini', 'INI / TOML'],
+  ['java', 'Java'],
+  ['javascript', 'JavaScript'],
+  ['json', 'JSON'],
+  ['kotlin', 'Kotlin'],
+  ['lua', 'Lua'],
+  ['makefile', 'Makefile'],
+  ['markdown', 'Markdown'],
+  ['mermaid', 'Mermaid diagram'],
+  ['php', 'PHP'],
+  ['python', 'Python'],
+  ['r', 'R'],
+  ['ruby', 'Ruby'],
+  ['rust', 'Rust'],
+  ['scss', 'SCSS'],
+  ['shell', 'Shell session'],
+  ['sql', 'SQL'],
+  ['swift', 'Swift'],
+  ['typescript', 'TypeScript'],
+  ['xml', 'XML'],
+  ['yaml', 'YAML'],
+];
+
+const COPY_FEEDBACK_MS = 1500;
+const MAX_CACHED_BLOCKS = 200;
+
+// ==========================================================================
+// Highlighting
+// ==========================================================================
+
+const tokenCache = new Map<string, Token[]>();
+
+function collectTokens(node: HastNode, offset: number, tokens: Token[]): number {
+  if (node.type === 'text') return offset + (node.value?.length ?? 0);
+
+  const start = offset;
+  let end = offset;
+  node.children?.forEach((child) => {
+    end = collectTokens(child, end, tokens);
+  });
+  const className = node.properties?.className?.join(' ');
+  if (className && end > start) tokens.push({ from: start, to: end, className });
+  return end;
+}
+
+/** Highlight ranges for `text`, as offsets into it; empty for unknown languages. */
+export function highlightTokens(language: string, text: string): Token[] {
+  const name = language.trim().split(/\s+/)[0]?.toLowerCase() ?? '';
+  if (!name || !text || !lowlight.registered(name)) return [];
+
+  const key = `${name}\n${text}`;
+  const cached = tokenCache.get(key);
+  if (cached) return cached;
+
+  let tokens: Token[] = [];
+  try {
+    collectTokens(lowlight.highlight(name, text) as HastNode, 0, tokens);
+  } catch {
+    tokens = [];
+  }
+  if (tokenCache.size >= MAX_CACHED_BLOCKS) tokenCache.clear();
+  tokenCache.set(key, tokens);
+  return tokens;
+}
+
+function highlightDecorations(doc: ProseNode): DecorationSet {
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== 'code_block') return node.isBlock;
+    if (!isMermaid(node)) {
+      highlightTokens(node.attrs.language, node.textContent).forEach(({ from, to, className }) => {
+        decorations.push(Decoration.inline(pos + 1 + from, pos + 1 + to, { class: className }));
+      });
+    }
+    return false;
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+const highlightKey = new PluginKey<DecorationSet>('codeHighlight');
+
+export const codeHighlight = $prose(
+  () =>
+    new Plugin<DecorationSet>({
+      key: highlightKey,
+      state: {
+        init: (_, state) => highlightDecorations(state.doc),
+        apply: (tr, set) => (tr.docChanged ? highlightDecorations(tr.doc) : set),
+      },
+      props: {
+        decorations: (state) => highlightKey.getState(state),
+      },
+    })
+);
+
+// ==========================================================================
+// Code Block View
+// ==========================================================================
+
+function fillLanguagePicker(select: HTMLSelectElement, language: string) {
+  const entries = LANGUAGES.some(([value]) => value === language) ? LANGUAGES : [...LANGUAGES, [language, language]];
+  select.replaceChildren(
+    ...entries.map(([value, label]) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      return option;
+    })
+  );
+  select.value = language;
+}
+
+function createCodeView(initial: ProseNode, view: EditorView, getPos: () => number | undefined): NodeView {
+  const dom = document.createElement('div');
+  dom.className = 'code-block';
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'code-block-toolbar';
+  toolbar.contentEditable = 'false';
+  const picker = document.createElement('select');
+  picker.className = 'code-language';
+  picker.title = 'Language';
+  const copy = document.createElement('button');
+  copy.className = 'code-copy';
+  copy.textContent = 'Copy';
+  copy.title = 'Copy code';
+  toolbar.append(picker, copy);
+
+  const pre = document.createElement('pre');
+  const code = document.createElement('code');
+  pre.appendChild(code);
+  dom.append(toolbar, pre);
+
+  let node = initial;
+  let copyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const render = () => {
+    const language = node.attrs.language ?? '';
+    if (language) pre.dataset.language = language;
+    else delete pre.dataset.language;
+    if (picker.value !== language || picker.options.length === 0) fillLanguagePicker(picker, language);
+  };
+
+  picker.addEventListener('change', () => {
+    const pos = getPos();
+    if (pos === undefined) return;
+    view.dispatch(view.state.tr.setNodeMarkup(pos, undefined, { ...node.attrs, language: picker.value }));
+  });
+
+  copy.addEventListener('mousedown', (e) => e.preventDefault());
+  copy.addEventListener('click', async () => {
+    try {
+      await navigator.clipboard.writeText(node.textContent);
+      copy.textContent = 'Copied';
+    } catch {
+      copy.textContent = 'Copy failed';
+    }
+    if (copyTimer) clearTimeout(copyTimer);
+    copyTimer = setTimeout(() => {
+      copy.textContent = 'Copy';
+    }, COPY_FEEDBACK_MS);
+  });
+
+  render();
+
+  return {
+    dom,
+    contentDOM: code,
+    update: (next) => {
+      if (next.type !== node.type || isMermaid(next)) return false;
+      node = next;
+      render();
+      return true;
+    },
+    stopEvent: (event) => toolbar.contains(event.target as Node),
+    ignoreMutation: (mutation) => mutation.type !== 'selection' && !pre.contains(mutation.target),
+    destroy: () => {
+      if (copyTimer) clearTimeout(copyTimer);
+    },
+  };
+}
+
+export const codeBlockView = $view(codeBlockSchema.node, () => (node, view, getPos) =>
+  isMermaid(node) ? createMermaidView(node) : createCodeView(node, view, getPos)
+);
+
+export const codeBlocks: MilkdownPlugin[] = [codeBlockView, codeHighlight].flat();
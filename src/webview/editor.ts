@@ -1,5 +1,8 @@
-import { Editor, rootCtx, defaultValueCtx, editorViewCtx } from '@milkdown/core';
+import { Editor, rootCtx, defaultValueCtx, editorViewCtx, serializerCtx } from '@milkdown/core';
+import type { Ctx } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
 import { TextSelection } from '@milkdown/prose/state';
+import type { EditorView } from '@milkdown/prose/view';
 import { deleteRow as prosemirrorDeleteRow } from '@milkdown/prose/tables';
 import { 
   commonmark, 
@@ -28,9 +31,49 @@ import {
 } from '@milkdown/preset-gfm';
 import { listener, listenerCtx } from '@milkdown/plugin-listener';
 import { history } from '@milkdown/plugin-history';
-import { callCommand, replaceAll } from '@milkdown/utils';
+import { callCommand } from '@milkdown/utils';
 import { nord } from '@milkdown/theme-nord';
 import yaml from 'js-yaml';
+import {
+  applyIncrementalUpdate,
+  externalChangeHighlight,
+  renderExternalChanges,
+  setupReviewPanel,
+} from './externalChanges';
+import {
+  FrontmatterPath,
+  addFrontmatterKey,
+  addFrontmatterSequenceItem,
+  deleteFrontmatterKey,
+  isEditableScalar,
+  removeFrontmatterSequenceItem,
+  setFrontmatterScalar,
+} from './frontmatterEditor';
+import { insertMathBlockCommand, insertMathInlineCommand, math } from './math';
+import { insertMermaidDiagramCommand, mermaidDiagrams } from './mermaid';
+import { codeBlocks } from './codeBlocks';
+import { imageSaveFailed, imageSaved, localImages, refreshImage, setImageBase, setupImageUpload } from './images';
+import { pasteHtml, pastePlainText } from './pasteHtml';
+import { rawSource } from './rawSource';
+import { SourceMap, buildSourceMap, serializeWithSourceMap } from './sourceFidelity';
+import { positionAtSourceLine, setSourceCursor, sourceCursorHighlight, sourceLineAt } from './sourceLines';
+import { callout, setCalloutCommand, setupCalloutDropdown } from './callout';
+import { taskLists, toggleTaskListCommand } from './taskList';
+import { footnotes, insertFootnoteCommand, renumberFootnotesCommand } from './footnotes';
+import { insertTocCommand, outline, revealHeading, setupOutline } from './outline';
+import { scrollToAnchor } from './anchors';
+import { findReplace, handleFindKeydown, setupFindReplace } from './findReplace';
+import { copyRichText, exportRenderedHtml } from './exportHtml';
+import { escapeHtml } from '../utils';
+import {
+  checkForWikiLinkTrigger,
+  handleWikiLinkPickerKeydown,
+  hideWikiLinkPicker,
+  setWikiLinkHeadings,
+  setWikiLinkTargets,
+  setupWikiLinks,
+  wikiLinks,
+} from './wikiLinks';
 // Import our VS Code theme-aware styles (NOT the Nord CSS)
 import './styles.css';
 
@@ -45,8 +88,10 @@ const vscode = acquireVsCodeApi();
 
 let editor: Editor | null = null;
 let isUpdatingFromExtension = false;
+// Document version the editor content is based on; sent with edits so the host can rebase them.
 let currentVersion = 0;
 let pendingUpdate: string | null = null;
+let pendingUpdateVersion = 0;
 let updateDebounceTimer: ReturnType<typeof setTimeout> | null = null;
 const UPDATE_DEBOUNCE_MS = 30; // Debounce rapid updates (AI streaming)
 const USER_IDLE_BEFORE_EXTERNAL_APPLY_MS = 150; // Buffer external updates while user is actively typing
@@ -54,6 +99,17 @@ let lastLocalEditAt = 0;
 let currentFrontmatter: string | null = null;
 let currentFrontmatterRawBlock: string | null = null;
 let frontmatterToggleInitialized = false;
+let frontmatterEditingInitialized = false;
+// A sync update arrived while a frontmatter field was being edited; re-render once it loses focus.
+let frontmatterRenderDeferred = false;
+// YAML syntax and schema problems reported by the extension host's frontmatter validator.
+let currentFrontmatterIssues: FrontmatterIssue[] = [];
+
+interface FrontmatterIssue {
+  message: string;
+  line: number;
+  source: 'yaml' | 'schema';
+}
 
 const FRONTMATTER_REGEX = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(\r?\n)?/;
 
@@ -64,12 +120,21 @@ type FrontmatterExtractionResult = {
 };
 
 // Outgoing edit debounce (batch rapid keystrokes into one message)
-let pendingOutgoingEdit: string | null = null;
+let pendingOutgoingEdit: { content: string; baseVersion: number } | null = null;
 let outgoingEditTimer: ReturnType<typeof setTimeout> | null = null;
 const OUTGOING_EDIT_DEBOUNCE_MS = 16; // ~1 frame at 60fps
 
 // Cache last known markdown to avoid expensive getMarkdown() calls
 let lastKnownMarkdown: string = '';
+// Doc that lastKnownMarkdown was produced from; any other doc holds unsent local edits.
+let lastSyncedDoc: ProseNode | null = null;
+// Original source of the loaded body, so untouched blocks are written back byte for byte.
+let sourceMap: SourceMap | null = null;
+let preserveSourceFormatting = true;
+// Heading anchor requested (by a link from another document) before the editor was created
+let pendingAnchor: string | null = null;
+// Source location to restore (when toggled from the text editor) before the editor was created
+let pendingSourceLocation: SourceLocation | null = null;
 
 // Slash command state
 let slashMenuVisible = false;
@@ -90,11 +155,19 @@ const slashCommands: SlashCommand[] = [
   { id: 'h2', title: 'Heading 2', description: 'Medium section heading', icon: 'H2', keywords: ['h2', 'heading'], action: () => setHeading(2) },
   { id: 'h3', title: 'Heading 3', description: 'Small section heading', icon: 'H3', keywords: ['h3', 'heading'], action: () => setHeading(3) },
   { id: 'bullet', title: 'Bullet List', description: 'Create a simple bullet list', icon: '•', keywords: ['bullet', 'list', 'ul'], action: toggleBulletList },
+  { id: 'todo', title: 'Task List', description: 'Checklist with checkboxes', icon: '☑', keywords: ['todo', 'task', 'checkbox', 'checklist'], action: toggleTaskList },
   { id: 'numbered', title: 'Numbered List', description: 'Create a numbered list', icon: '1.', keywords: ['numbered', 'list', 'ol', 'ordered'], action: toggleOrderedList },
   { id: 'quote', title: 'Blockquote', description: 'Capture a quote', icon: '❝', keywords: ['quote', 'blockquote'], action: toggleBlockquote },
+  { id: 'callout', title: 'Callout', description: 'Obsidian-style note callout', icon: 'ℹ', keywords: ['callout', 'admonition', 'note', 'warning', 'tip'], action: () => setCallout('note') },
   { id: 'code', title: 'Code Block', description: 'Add a code snippet', icon: '{ }', keywords: ['code', 'codeblock', 'snippet'], action: insertCodeBlock },
+  { id: 'diagram', title: 'Diagram', description: 'Mermaid flowchart', icon: '⎔', keywords: ['diagram', 'mermaid', 'flowchart', 'chart'], action: insertDiagram },
   { id: 'table', title: 'Table', description: 'Insert a 3×3 table', icon: '⊞', keywords: ['table', 'grid'], action: () => insertTable(3, 3) },
+  { id: 'toc', title: 'Table of Contents', description: 'Links to every heading; run again to update', icon: '☰', keywords: ['toc', 'contents', 'outline', 'index'], action: insertToc },
   { id: 'hr', title: 'Divider', description: 'Horizontal line separator', icon: '—', keywords: ['hr', 'divider', 'line', 'separator'], action: insertHorizontalRule },
+  { id: 'math', title: 'Inline Math', description: 'LaTeX formula in the text', icon: '∑', keywords: ['math', 'latex', 'formula', 'katex'], action: insertInlineMath },
+  { id: 'equation', title: 'Equation', description: 'Display math block', icon: '∫', keywords: ['equation', 'math', 'latex', 'block'], action: insertMathBlock },
+  { id: 'footnote', title: 'Footnote', description: 'Numbered note at the end', icon: '¹', keywords: ['footnote', 'note', 'reference', 'citation'], action: insertFootnote },
+  { id: 'renumber-footnotes', title: 'Renumber Footnotes', description: 'Number 1, 2, 3… and gather at the end', icon: '#', keywords: ['renumber', 'footnotes', 'reorder'], action: renumberFootnotes },
   { id: 'link', title: 'Link', description: 'Add a hyperlink', icon: '🔗', keywords: ['link', 'url', 'href'], action: insertLink },
   { id: 'bold', title: 'Bold', description: 'Bold text', icon: 'B', keywords: ['bold', 'strong'], action: toggleBold },
   { id: 'italic', title: 'Italic', description: 'Italic text', icon: 'I', keywords: ['italic', 'emphasis', 'em'], action: toggleItalic },
@@ -107,7 +180,11 @@ function normalizeMarkdownForCompare(markdown: string): string {
   return markdown.replace(/\r\n/g, '\n');
 }
 
-function extractFrontmatter(markdown: string): FrontmatterExtractionResult {
+/**
+ * Splits a leading frontmatter block off the markdown. With `keepInvalid`, a block whose YAML
+ * fails to parse is still treated as frontmatter so the panel can report the syntax error.
+ */
+function extractFrontmatter(markdown: string, keepInvalid = false): FrontmatterExtractionResult {
   const match = markdown.match(FRONTMATTER_REGEX);
   if (!match) {
     return { frontmatter: null, rawBlock: null, content: markdown };
@@ -120,7 +197,9 @@ function extractFrontmatter(markdown: string): FrontmatterExtractionResult {
       return { frontmatter: null, rawBlock: null, content: markdown };
     }
   } catch {
-    return { frontmatter: null, rawBlock: null, content: markdown };
+    if (!keepInvalid) {
+      return { frontmatter: null, rawBlock: null, content: markdown };
+    }
   }
 
   return {
@@ -172,15 +251,6 @@ function formatScalar(value: unknown): string {
   return String(value);
 }
 
-function escapeHtml(input: string): string {
-  return input
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-}
-
 const TAG_LIKE_KEYS = new Set(['tags', 'aliases']);
 
 function isTagLikeArray(key: string, value: unknown): value is string[] {
@@ -188,33 +258,47 @@ function isTagLikeArray(key: string, value: unknown): value is string[] {
   return value.every((item) => typeof item === 'string');
 }
 
-function renderFrontmatterScalar(value: unknown): string {
+function encodePath(path: FrontmatterPath): string {
+  return escapeHtml(JSON.stringify(path));
+}
+
+function renderFrontmatterScalar(value: unknown, path: FrontmatterPath): string {
   const typeClass = getScalarTypeClass(value);
   const displayValue = escapeHtml(formatScalar(value));
-  return `<span class="frontmatter-value frontmatter-scalar ${typeClass}" title="${displayValue}">${displayValue}</span>`;
-}
+  const pathAttr = encodePath(path);
 
-function renderFrontmatterChips(values: string[]): string {
-  if (values.length === 0) {
-    return '<div class="frontmatter-chips frontmatter-chips-empty"></div>';
+  if (typeof value === 'boolean') {
+    return `<button class="frontmatter-value frontmatter-scalar frontmatter-bool-toggle ${typeClass}" data-path="${pathAttr}" role="switch" aria-checked="${value}" title="Click to toggle">${displayValue}</button>`;
   }
+
+  // Block scalars (| and >) can't be edited on one line; show them read-only.
+  const editable = currentFrontmatter !== null && isEditableScalar(currentFrontmatter, path);
+  const editableAttrs = editable
+    ? ` contenteditable="plaintext-only" spellcheck="false" data-path="${pathAttr}" data-original="${value === null ? '' : displayValue}"`
+    : '';
+  return `<span class="frontmatter-value frontmatter-scalar ${typeClass}${editable ? ' frontmatter-editable' : ''}" title="${displayValue}"${editableAttrs}>${value === null && editable ? '' : displayValue}</span>`;
+}
+
+function renderFrontmatterChips(values: string[], path: FrontmatterPath): string {
+  const pathAttr = encodePath(path);
   const chips = values
-    .map((v) => escapeHtml(v))
-    .map((v) => `<span class="frontmatter-chip">${v}</span>`)
+    .map((v, i) => `<span class="frontmatter-chip">${escapeHtml(v)}<button class="frontmatter-chip-remove" data-path="${pathAttr}" data-index="${i}" title="Remove">×</button></span>`)
     .join('');
-  return `<div class="frontmatter-chips">${chips}</div>`;
+  const input = `<input class="frontmatter-chip-input" data-path="${pathAttr}" placeholder="+ add" spellcheck="false">`;
+  return `<div class="frontmatter-chips${values.length === 0 ? ' frontmatter-chips-empty' : ''}">${chips}${input}</div>`;
 }
 
-function renderFrontmatterArray(values: unknown[], depth: number, _key?: string): string {
+function renderFrontmatterArray(values: unknown[], depth: number, path: FrontmatterPath): string {
   if (values.length === 0) {
     return '<div class="frontmatter-empty frontmatter-empty-array">[]</div>';
   }
 
   const indentClass = `depth-${Math.min(depth, 6)}`;
   return values
-    .map((item) => {
+    .map((item, index) => {
       const nested = isObjectRecord(item) || Array.isArray(item);
-      const itemValue = nested ? renderFrontmatterNode(item, depth + 1) : renderFrontmatterScalar(item);
+      const itemPath = [...path, index];
+      const itemValue = nested ? renderFrontmatterNode(item, depth + 1, itemPath) : renderFrontmatterScalar(item, itemPath);
       return `<div class="frontmatter-array-item ${indentClass}">
         <span class="frontmatter-bullet">-</span>
         <div class="frontmatter-array-value">${itemValue}</div>
@@ -223,7 +307,7 @@ function renderFrontmatterArray(values: unknown[], depth: number, _key?: string)
     .join('');
 }
 
-function renderFrontmatterObject(obj: Record<string, unknown>, depth: number): string {
+function renderFrontmatterObject(obj: Record<string, unknown>, depth: number, path: FrontmatterPath): string {
   const entries = Object.entries(obj);
   if (entries.length === 0) {
     return '<div class="frontmatter-empty frontmatter-empty-object">{}</div>';
@@ -232,14 +316,16 @@ function renderFrontmatterObject(obj: Record<string, unknown>, depth: number): s
   const indentClass = `depth-${Math.min(depth, 6)}`;
   return entries
     .map(([key, value]) => {
+      const keyPath = [...path, key];
       const nested = isObjectRecord(value) || Array.isArray(value);
-      const keyHtml = `<span class="frontmatter-key">${escapeHtml(key)}</span><span class="frontmatter-separator">:</span>`;
+      const deleteButton = `<button class="frontmatter-delete-key" data-path="${encodePath(keyPath)}" title="Delete property">×</button>`;
+      const keyHtml = `<span class="frontmatter-key">${escapeHtml(key)}</span><span class="frontmatter-separator">:</span>${deleteButton}`;
 
       if (isTagLikeArray(key, value)) {
         return `<div class="frontmatter-property ${indentClass}">
           <div class="frontmatter-row">
             <div class="frontmatter-key-group">${keyHtml}</div>
-            <div class="frontmatter-value-group">${renderFrontmatterChips(value)}</div>
+            <div class="frontmatter-value-group">${renderFrontmatterChips(value, keyPath)}</div>
           </div>
         </div>`;
       }
@@ -249,7 +335,7 @@ function renderFrontmatterObject(obj: Record<string, unknown>, depth: number): s
           <div class="frontmatter-row">
             <div class="frontmatter-key-group">${keyHtml}</div>
             <div class="frontmatter-value-group">
-              <div class="frontmatter-children">${renderFrontmatterNode(value, depth + 1)}</div>
+              <div class="frontmatter-children">${renderFrontmatterNode(value, depth + 1, keyPath)}</div>
             </div>
           </div>
         </div>`;
@@ -258,21 +344,29 @@ function renderFrontmatterObject(obj: Record<string, unknown>, depth: number): s
       return `<div class="frontmatter-property ${indentClass}">
         <div class="frontmatter-row">
           <div class="frontmatter-key-group">${keyHtml}</div>
-          <div class="frontmatter-value-group">${renderFrontmatterScalar(value)}</div>
+          <div class="frontmatter-value-group">${renderFrontmatterScalar(value, keyPath)}</div>
         </div>
       </div>`;
     })
     .join('');
 }
 
-function renderFrontmatterNode(value: unknown, depth: number): string {
+function renderFrontmatterNode(value: unknown, depth: number, path: FrontmatterPath = []): string {
   if (Array.isArray(value)) {
-    return renderFrontmatterArray(value, depth);
+    return renderFrontmatterArray(value, depth, path);
   }
   if (isObjectRecord(value)) {
-    return renderFrontmatterObject(value, depth);
+    return renderFrontmatterObject(value, depth, path);
   }
-  return renderFrontmatterScalar(value);
+  return renderFrontmatterScalar(value, path);
+}
+
+function renderFrontmatterAddRow(): string {
+  return `<div class="frontmatter-add-row">
+    <input class="frontmatter-add-key" placeholder="New property" spellcheck="false">
+    <input class="frontmatter-add-value" placeholder="Value" spellcheck="false">
+    <button class="frontmatter-add-button">Add</button>
+  </div>`;
 }
 
 function renderFrontmatter(frontmatter: string | null) {
@@ -282,6 +376,7 @@ function renderFrontmatter(frontmatter: string | null) {
   if (!container || !contentEl) return;
 
   currentFrontmatter = frontmatter;
+  frontmatterRenderDeferred = false;
   if (!frontmatter) {
     container.style.display = 'none';
     container.classList.remove('is-expanded', 'is-collapsed');
@@ -294,8 +389,9 @@ function renderFrontmatter(frontmatter: string | null) {
   let parsed: unknown;
   try {
     parsed = yaml.load(frontmatter);
-  } catch {
-    parsed = null;
+  } catch (e) {
+    renderInvalidFrontmatter(frontmatter, e);
+    return;
   }
 
   if (!parsed || typeof parsed !== 'object') {
@@ -308,6 +404,7 @@ function renderFrontmatter(frontmatter: string | null) {
   }
 
   container.style.display = 'block';
+  container.classList.toggle('has-issues', currentFrontmatterIssues.length > 0);
   const obj = parsed as Record<string, unknown>;
   const titleValue = typeof obj.title === 'string' ? obj.title.trim() : '';
   const nameValue = typeof obj.name === 'string' ? obj.name.trim() : '';
@@ -319,7 +416,7 @@ function renderFrontmatter(frontmatter: string | null) {
   const rest = { ...obj };
   delete rest.title;
   delete rest.name;
-  contentEl.innerHTML = `<div class="frontmatter-tree">${renderFrontmatterNode(rest, 0)}</div>`;
+  contentEl.innerHTML = `${renderFrontmatterIssues()}<div class="frontmatter-tree">${renderFrontmatterNode(rest, 0)}</div>${renderFrontmatterAddRow()}`;
   contentEl.style.display = 'block';
   container.classList.remove('is-collapsed');
   container.classList.add('is-expanded');
@@ -327,6 +424,60 @@ function renderFrontmatter(frontmatter: string | null) {
   if (chevron) chevron.textContent = '▼';
 }
 
+function renderFrontmatterIssueList(issues: FrontmatterIssue[]): string {
+  return issues
+    .map(
+      (issue) =>
+        `<li class="frontmatter-issue is-${issue.source}"><span class="frontmatter-issue-line">Line ${issue.line + 1}</span>${escapeHtml(issue.message)}</li>`
+    )
+    .join('');
+}
+
+function renderFrontmatterIssues(): string {
+  const display = currentFrontmatterIssues.length > 0 ? '' : ' style="display: none;"';
+  return `<ul class="frontmatter-issues" id="frontmatter-issues"${display}>${renderFrontmatterIssueList(currentFrontmatterIssues)}</ul>`;
+}
+
+/**
+ * Keeps the panel visible for frontmatter whose YAML does not parse, showing the syntax error
+ * and the raw block as text to fix in place; it is committed when the text area loses focus.
+ */
+function renderInvalidFrontmatter(frontmatter: string, error: unknown) {
+  const container = document.getElementById('frontmatter-container');
+  const contentEl = document.getElementById('frontmatter-content');
+  const labelEl = document.querySelector('#frontmatter-toggle .frontmatter-label');
+  if (!container || !contentEl) return;
+
+  // Until the host reports its own diagnostics, fall back to the local parser's error.
+  const mark = (error as { mark?: { line: number } }).mark;
+  const reason = (error as { reason?: string }).reason ?? 'Frontmatter YAML could not be parsed';
+  if (!currentFrontmatterIssues.some((issue) => issue.source === 'yaml')) {
+    // js-yaml lines are 0-based within the block; the opening `---` is document line 0.
+    currentFrontmatterIssues = [{ message: `Invalid YAML: ${reason}`, line: (mark?.line ?? 0) + 1, source: 'yaml' }];
+  }
+
+  container.style.display = 'block';
+  container.classList.add('has-issues');
+  if (labelEl) labelEl.textContent = 'Invalid frontmatter';
+  const rows = frontmatter.split('\n').length;
+  contentEl.innerHTML = `${renderFrontmatterIssues()}<textarea class="frontmatter-raw" rows="${rows}" spellcheck="false">${escapeHtml(frontmatter)}</textarea>`;
+  contentEl.style.display = 'block';
+  container.classList.remove('is-collapsed');
+  container.classList.add('is-expanded');
+  const chevron = document.querySelector('#frontmatter-toggle .frontmatter-chevron');
+  if (chevron) chevron.textContent = '▼';
+}
+
+function updateFrontmatterIssues(issues: FrontmatterIssue[]) {
+  currentFrontmatterIssues = issues;
+  document.getElementById('frontmatter-container')?.classList.toggle('has-issues', issues.length > 0);
+  const list = document.getElementById('frontmatter-issues');
+  if (list) {
+    list.innerHTML = renderFrontmatterIssueList(issues);
+    list.style.display = issues.length > 0 ? '' : 'none';
+  }
+}
+
 function setupFrontmatterToggle() {
   if (frontmatterToggleInitialized) return;
 
@@ -337,6 +488,8 @@ function setupFrontmatterToggle() {
 
   toggle?.addEventListener('click', () => {
     if (!content || !chevron || !container) return;
+    // Clicks inside the label while renaming the title shouldn't collapse the panel.
+    if ((toggle.querySelector('.frontmatter-label') as HTMLElement | null)?.isContentEditable) return;
     const isHidden = content.style.display === 'none';
     content.style.display = isHidden ? 'block' : 'none';
     chevron.textContent = isHidden ? '▼' : '▶';
@@ -347,6 +500,218 @@ function setupFrontmatterToggle() {
   frontmatterToggleInitialized = true;
 }
 
+function decodePath(el: HTMLElement): FrontmatterPath | null {
+  try {
+    const path = JSON.parse(el.dataset.path || '');
+    return Array.isArray(path) ? path : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes an edited frontmatter YAML back into the document. The body is reused verbatim unless
+ * it has unsent local edits, so a frontmatter change never re-serializes the markdown body.
+ */
+function commitFrontmatterEdit(nextFrontmatter: string) {
+  if (!editor || currentFrontmatterRawBlock === null || currentFrontmatter === null) return;
+  if (nextFrontmatter === currentFrontmatter) return;
+
+  const previousRawBlock = currentFrontmatterRawBlock;
+  const previousFrontmatter = currentFrontmatter;
+  if (previousRawBlock.includes('\r\n')) {
+    nextFrontmatter = nextFrontmatter.replace(/\r?\n/g, '\r\n');
+  }
+  const openingLength = previousRawBlock.indexOf('\n') + 1;
+  const nextRawBlock =
+    previousRawBlock.slice(0, openingLength) +
+    nextFrontmatter +
+    previousRawBlock.slice(openingLength + previousFrontmatter.length);
+
+  editor.action((ctx) => {
+    const doc = ctx.get(editorViewCtx).state.doc;
+    let body: string;
+    if (doc === lastSyncedDoc && lastKnownMarkdown.startsWith(previousRawBlock)) {
+      body = lastKnownMarkdown.slice(previousRawBlock.length);
+    } else {
+      body = sanitizeOutgoingMarkdown(serializeBody(ctx, doc));
+      lastSyncedDoc = doc;
+    }
+
+    currentFrontmatterRawBlock = nextRawBlock;
+    const fullMarkdown = combineFrontmatter(nextRawBlock, body);
+    lastKnownMarkdown = fullMarkdown;
+    sendOutgoingEdit(fullMarkdown);
+  });
+
+  renderFrontmatter(nextFrontmatter);
+}
+
+function commitFrontmatterScalar(el: HTMLElement) {
+  const path = decodePath(el);
+  const value = el.textContent ?? '';
+  if (!path || currentFrontmatter === null || value === el.dataset.original) return;
+  commitFrontmatterEdit(setFrontmatterScalar(currentFrontmatter, path, value));
+}
+
+function renameFrontmatterTitle(title: string) {
+  if (currentFrontmatter === null) return;
+
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(currentFrontmatter);
+  } catch {
+    return;
+  }
+  const obj = isObjectRecord(parsed) ? parsed : {};
+  // The header shows `title`, falling back to `name` (SKILL.md); rename whichever is displayed.
+  const titleKey = typeof obj.title === 'string' && obj.title.trim() ? 'title' : typeof obj.name === 'string' ? 'name' : 'title';
+  const next = titleKey in obj
+    ? setFrontmatterScalar(currentFrontmatter, [titleKey], title)
+    : addFrontmatterKey(currentFrontmatter, titleKey, title);
+  commitFrontmatterEdit(next);
+}
+
+function setupFrontmatterEditing() {
+  if (frontmatterEditingInitialized) return;
+
+  const content = document.getElementById('frontmatter-content');
+  const label = document.querySelector('#frontmatter-toggle .frontmatter-label') as HTMLElement | null;
+
+  content?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (currentFrontmatter === null) return;
+
+    const boolToggle = target.closest('.frontmatter-bool-toggle') as HTMLElement | null;
+    if (boolToggle) {
+      const path = decodePath(boolToggle);
+      if (path) {
+        const next = boolToggle.getAttribute('aria-checked') === 'true' ? 'false' : 'true';
+        commitFrontmatterEdit(setFrontmatterScalar(currentFrontmatter, path, next));
+      }
+      return;
+    }
+
+    const chipRemove = target.closest('.frontmatter-chip-remove') as HTMLElement | null;
+    if (chipRemove) {
+      const path = decodePath(chipRemove);
+      if (path) {
+        commitFrontmatterEdit(removeFrontmatterSequenceItem(currentFrontmatter, path, Number(chipRemove.dataset.index)));
+      }
+      return;
+    }
+
+    const deleteKey = target.closest('.frontmatter-delete-key') as HTMLElement | null;
+    if (deleteKey) {
+      const path = decodePath(deleteKey);
+      if (path) {
+        commitFrontmatterEdit(deleteFrontmatterKey(currentFrontmatter, path));
+      }
+      return;
+    }
+
+    if (target.closest('.frontmatter-add-button')) {
+      addFrontmatterPropertyFromInputs();
+    }
+  });
+
+  content?.addEventListener('keydown', (e) => {
+    const target = e.target as HTMLElement;
+
+    if (target.classList.contains('frontmatter-editable')) {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        target.blur();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        target.textContent = target.dataset.original ?? '';
+        target.blur();
+      }
+      return;
+    }
+
+    if (target.classList.contains('frontmatter-raw') && e.key === 'Escape') {
+      e.preventDefault();
+      (target as HTMLTextAreaElement).value = currentFrontmatter ?? '';
+      target.blur();
+      return;
+    }
+
+    if (target.classList.contains('frontmatter-chip-input') && e.key === 'Enter') {
+      e.preventDefault();
+      const input = target as HTMLInputElement;
+      const path = decodePath(input);
+      const value = input.value.trim();
+      if (!path || !value || currentFrontmatter === null) return;
+      const pathAttr = input.dataset.path;
+      commitFrontmatterEdit(addFrontmatterSequenceItem(currentFrontmatter, path, value));
+      // Keep focus in the (re-rendered) chip input so several tags can be added in a row.
+      const nextInput = Array.from(document.querySelectorAll<HTMLInputElement>('.frontmatter-chip-input'))
+        .find((el) => el.dataset.path === pathAttr);
+      nextInput?.focus();
+      return;
+    }
+
+    if (
+      (target.classList.contains('frontmatter-add-key') || target.classList.contains('frontmatter-add-value')) &&
+      e.key === 'Enter'
+    ) {
+      e.preventDefault();
+      addFrontmatterPropertyFromInputs();
+    }
+  });
+
+  content?.addEventListener('focusout', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.classList.contains('frontmatter-editable')) {
+      commitFrontmatterScalar(target);
+    } else if (target.classList.contains('frontmatter-raw')) {
+      commitFrontmatterEdit((target as HTMLTextAreaElement).value);
+    }
+    flushDeferredFrontmatterRender(e.relatedTarget);
+  });
+
+  label?.addEventListener('dblclick', (e) => {
+    if (currentFrontmatter === null) return;
+    e.stopPropagation();
+    label.dataset.original = label.textContent ?? '';
+    label.contentEditable = 'plaintext-only';
+    label.focus();
+  });
+  label?.addEventListener('keydown', (e) => {
+    if (!label.isContentEditable) return;
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      label.blur();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      label.textContent = label.dataset.original ?? '';
+      label.blur();
+    }
+  });
+  label?.addEventListener('blur', (e) => {
+    if (!label.isContentEditable) return;
+    label.contentEditable = 'false';
+    const title = (label.textContent ?? '').trim();
+    if (title && title !== label.dataset.original) {
+      renameFrontmatterTitle(title);
+    } else {
+      label.textContent = label.dataset.original ?? '';
+    }
+    flushDeferredFrontmatterRender(e.relatedTarget);
+  });
+
+  frontmatterEditingInitialized = true;
+}
+
+function addFrontmatterPropertyFromInputs() {
+  const keyInput = document.querySelector('.frontmatter-add-key') as HTMLInputElement | null;
+  const valueInput = document.querySelector('.frontmatter-add-value') as HTMLInputElement | null;
+  const key = keyInput?.value.trim();
+  if (!key || currentFrontmatter === null) return;
+  commitFrontmatterEdit(addFrontmatterKey(currentFrontmatter, key, valueInput?.value ?? ''));
+}
+
 function ensureNoFrontmatterInEditorContent(content: string, source: string): string {
   if (!content.startsWith('---')) {
     return content;
@@ -370,28 +735,79 @@ function sanitizeOutgoingMarkdown(markdown: string): string {
   return extracted.content;
 }
 
+/** Whether a frontmatter field has focus, whose half-typed value a re-render would throw away. */
+function isEditingFrontmatter(): boolean {
+  const active = document.activeElement as HTMLElement | null;
+  if (!active?.closest('#frontmatter-container')) return false;
+  return active.tagName === 'INPUT' || active.tagName === 'TEXTAREA' || active.isContentEditable;
+}
+
+/** Catches the panel up with updates that arrived while one of its fields had focus. */
+function flushDeferredFrontmatterRender(nextFocus: EventTarget | null) {
+  if (!frontmatterRenderDeferred) return;
+  if (nextFocus instanceof Node && document.getElementById('frontmatter-container')?.contains(nextFocus)) return;
+  renderFrontmatter(currentFrontmatter);
+}
+
 function applyFrontmatterStateFromContent(markdown: string): string {
-  const extracted = extractFrontmatter(markdown);
+  const extracted = extractFrontmatter(markdown, true);
   currentFrontmatterRawBlock = extracted.rawBlock;
   currentFrontmatter = extracted.frontmatter;
-  renderFrontmatter(currentFrontmatter);
+  if (isEditingFrontmatter()) {
+    frontmatterRenderDeferred = true;
+  } else {
+    renderFrontmatter(currentFrontmatter);
+  }
   return extracted.content;
 }
 
 function sendOutgoingEdit(markdown: string) {
-  pendingOutgoingEdit = markdown;
+  pendingOutgoingEdit = { content: markdown, baseVersion: currentVersion };
   if (outgoingEditTimer) {
     clearTimeout(outgoingEditTimer);
   }
-  outgoingEditTimer = setTimeout(() => {
-    if (pendingOutgoingEdit !== null) {
-      vscode.postMessage({
-        type: 'edit',
-        content: pendingOutgoingEdit,
-      });
-      pendingOutgoingEdit = null;
-    }
-  }, OUTGOING_EDIT_DEBOUNCE_MS);
+  outgoingEditTimer = setTimeout(flushOutgoingEdit, OUTGOING_EDIT_DEBOUNCE_MS);
+}
+
+function flushOutgoingEdit() {
+  if (outgoingEditTimer) {
+    clearTimeout(outgoingEditTimer);
+    outgoingEditTimer = null;
+  }
+  if (pendingOutgoingEdit !== null) {
+    vscode.postMessage({
+      type: 'edit',
+      content: pendingOutgoingEdit.content,
+      baseVersion: pendingOutgoingEdit.baseVersion,
+    });
+    pendingOutgoingEdit = null;
+  }
+}
+
+function serializeBody(ctx: Ctx, doc: ProseNode): string {
+  if (preserveSourceFormatting && sourceMap) {
+    return serializeWithSourceMap(ctx, doc, sourceMap);
+  }
+  return ctx.get(serializerCtx)(doc);
+}
+
+/**
+ * Serializes the live doc and queues it as an edit. The listener plugin reports the doc of the
+ * transaction that scheduled it, which can predate an external update applied since; reading the
+ * current doc keeps the edit consistent with the base version it is sent with.
+ */
+function syncLocalChanges(ctx: Ctx) {
+  const doc = ctx.get(editorViewCtx).state.doc;
+  if (doc === lastSyncedDoc) return;
+
+  const markdown = serializeBody(ctx, doc);
+  lastSyncedDoc = doc;
+  const safeMarkdown = sanitizeOutgoingMarkdown(markdown);
+  const fullMarkdown = combineFrontmatter(currentFrontmatterRawBlock, safeMarkdown);
+  if (fullMarkdown === lastKnownMarkdown) return;
+
+  lastKnownMarkdown = fullMarkdown;
+  sendOutgoingEdit(fullMarkdown);
 }
 
 // Toolbar action handlers
@@ -425,6 +841,22 @@ function toggleOrderedList() {
   runCommand(callCommand(wrapInOrderedListCommand.key));
 }
 
+function toggleTaskList() {
+  runCommand(callCommand(toggleTaskListCommand.key));
+}
+
+function insertToc() {
+  runCommand(callCommand(insertTocCommand.key));
+}
+
+function insertFootnote() {
+  runCommand(callCommand(insertFootnoteCommand.key));
+}
+
+function renumberFootnotes() {
+  runCommand(callCommand(renumberFootnotesCommand.key));
+}
+
 function insertHorizontalRule() {
   runCommand(callCommand(insertHrCommand.key));
 }
@@ -437,10 +869,26 @@ function toggleBlockquote() {
   runCommand(callCommand(wrapInBlockquoteCommand.key));
 }
 
+function setCallout(type: string | null) {
+  runCommand(callCommand(setCalloutCommand.key, type));
+}
+
 function insertCodeBlock() {
   runCommand(callCommand(createCodeBlockCommand.key));
 }
 
+function insertDiagram() {
+  runCommand(callCommand(insertMermaidDiagramCommand.key));
+}
+
+function insertInlineMath() {
+  runCommand(callCommand(insertMathInlineCommand.key));
+}
+
+function insertMathBlock() {
+  runCommand(callCommand(insertMathBlockCommand.key));
+}
+
 function insertLink() {
   runCommand(callCommand(toggleLinkCommand.key));
 }
@@ -497,12 +945,199 @@ function handleRenderedLinkClick(e: MouseEvent) {
 
   const href = link.getAttribute('href')?.trim();
   if (!href) return;
+
+  if (href.startsWith('#')) {
+    let anchor = href.slice(1);
+    try {
+      anchor = decodeURIComponent(anchor);
+    } catch {
+      // Keep the raw fragment
+    }
+    goToAnchor(anchor);
+    return;
+  }
+
+  // Anything with a scheme (https:, mailto:, vscode:, ...) is external; the rest is a path
+  // relative to this document that the extension host resolves and opens.
   vscode.postMessage({
-    type: 'openExternalLink',
+    type: /^[a-z][a-z0-9+.-]*:/i.test(href) ? 'openExternalLink' : 'openRelativeLink',
     href,
   });
 }
 
+interface SourceLocation {
+  /** Line of the cursor in the TextDocument. */
+  line: number;
+  /** Line of the block at the top of the viewport. */
+  topLine: number;
+}
+
+// Scrolling asks for source lines often; only edits change the body they are counted in.
+let bodyCache: { doc: ProseNode; body: string } | null = null;
+
+/** Lines before the body: the frontmatter block isn't part of the doc. */
+function bodyLineOffset(): number {
+  return currentFrontmatterRawBlock ? currentFrontmatterRawBlock.split('\n').length - 1 : 0;
+}
+
+function sourceLineOf(ctx: Ctx, pos: number): number | null {
+  const { doc } = ctx.get(editorViewCtx).state;
+  if (bodyCache?.doc !== doc) bodyCache = { doc, body: serializeBody(ctx, doc) };
+  const line = sourceLineAt(ctx, bodyCache.body, doc, pos);
+  return line === null ? null : line + bodyLineOffset();
+}
+
+function positionOfSourceLine(ctx: Ctx, line: number): number | null {
+  const { doc } = ctx.get(editorViewCtx).state;
+  if (bodyCache?.doc !== doc) bodyCache = { doc, body: serializeBody(ctx, doc) };
+  return positionAtSourceLine(ctx, bodyCache.body, doc, Math.max(line - bodyLineOffset(), 0));
+}
+
+/** Position of the block at the top of the editor's viewport. */
+function topVisiblePos(view: EditorView): number | null {
+  const container = document.getElementById('editor-container');
+  const rect = view.dom.getBoundingClientRect();
+  const top = Math.max(rect.top, container?.getBoundingClientRect().top ?? rect.top) + 1;
+  return view.posAtCoords({ left: rect.left + 1, top })?.pos ?? null;
+}
+
+function scrollPosToTop(view: EditorView, pos: number) {
+  const container = document.getElementById('editor-container');
+  if (!container) return;
+  ignoreScrollUntil = Date.now() + SCROLL_ECHO_MS;
+  container.scrollTop += view.coordsAtPos(pos).top - container.getBoundingClientRect().top;
+}
+
+function currentSourceLocation(): SourceLocation | null {
+  if (!editor) return null;
+  return editor.action((ctx) => {
+    const view = ctx.get(editorViewCtx);
+    const line = sourceLineOf(ctx, view.state.selection.head);
+    if (line === null) return null;
+    const top = topVisiblePos(view);
+    return { line, topLine: (top === null ? null : sourceLineOf(ctx, top)) ?? line };
+  });
+}
+
+/** Puts the cursor on `location.line` and scrolls `location.topLine` to the top of the view. */
+function revealSourceLocation(location: SourceLocation) {
+  if (!editor) {
+    pendingSourceLocation = location;
+    return;
+  }
+  editor.action((ctx) => {
+    const view = ctx.get(editorViewCtx);
+    const pos = positionOfSourceLine(ctx, location.line);
+    const topPos = positionOfSourceLine(ctx, location.topLine);
+    if (pos === null) return;
+
+    view.dispatch(view.state.tr.setSelection(TextSelection.near(view.state.doc.resolve(pos))));
+    if (topPos !== null) scrollPosToTop(view, topPos);
+    view.focus();
+  });
+}
+
+// ==========================================================================
+// Side by Side
+// ==========================================================================
+
+// A text editor beside this view shows the same document: scrolling and cursor lines are synced.
+let sourceEditorVisible = false;
+const SCROLL_SYNC_MS = 50; // Throttle scroll messages to the text editor
+const SCROLL_ECHO_MS = 200; // Ignore the scroll events caused by scrolling to the text editor's line
+let ignoreScrollUntil = 0;
+let scrollSyncTimer: ReturnType<typeof setTimeout> | null = null;
+let lastRenderedCursorLine: number | null = null;
+let sourceSyncInitialized = false;
+// Text editor scroll and cursor lines received before the editor was created
+let pendingSourceScroll: number | null = null;
+let pendingSourceCursor: number | null = null;
+
+function setSourceEditorVisible(visible: boolean) {
+  sourceEditorVisible = visible;
+  lastRenderedCursorLine = null;
+  if (!editor) return;
+  if (visible) {
+    postRenderedCursor();
+  } else {
+    editor.action((ctx) => setSourceCursor(ctx.get(editorViewCtx), null));
+  }
+}
+
+function postRenderedScroll() {
+  if (!editor || !sourceEditorVisible) return;
+  const line = editor.action((ctx) => {
+    const top = topVisiblePos(ctx.get(editorViewCtx));
+    return top === null ? null : sourceLineOf(ctx, top);
+  });
+  if (line !== null) vscode.postMessage({ type: 'renderedScroll', line });
+}
+
+function postRenderedCursor() {
+  if (!editor || !sourceEditorVisible) return;
+  const line = editor.action((ctx) => sourceLineOf(ctx, ctx.get(editorViewCtx).state.selection.head));
+  if (line === null || line === lastRenderedCursorLine) return;
+  lastRenderedCursorLine = line;
+  vscode.postMessage({ type: 'renderedCursor', line });
+}
+
+function scrollToSourceLine(line: number) {
+  if (!editor) {
+    pendingSourceScroll = line;
+    return;
+  }
+  editor.action((ctx) => {
+    const pos = positionOfSourceLine(ctx, line);
+    if (pos !== null) scrollPosToTop(ctx.get(editorViewCtx), pos);
+  });
+}
+
+function showSourceCursor(line: number) {
+  if (!editor) {
+    pendingSourceCursor = line;
+    return;
+  }
+  editor.action((ctx) => setSourceCursor(ctx.get(editorViewCtx), positionOfSourceLine(ctx, line)));
+}
+
+function setupSourceSync() {
+  if (sourceSyncInitialized) return;
+  const container = document.getElementById('editor-container');
+  if (!container) return;
+
+  container.addEventListener('scroll', () => {
+    if (!sourceEditorVisible || Date.now() < ignoreScrollUntil || scrollSyncTimer) return;
+    scrollSyncTimer = setTimeout(() => {
+      scrollSyncTimer = null;
+      if (Date.now() >= ignoreScrollUntil) postRenderedScroll();
+    }, SCROLL_SYNC_MS);
+  });
+  sourceSyncInitialized = true;
+}
+
+// ==========================================================================
+// Export
+// ==========================================================================
+
+async function postExportedHtml(requestId: number, includeFrontmatter: boolean) {
+  vscode.postMessage({ type: 'exportedHtml', requestId, export: await exportRenderedHtml(includeFrontmatter) });
+}
+
+/** Copies the rendered document as rich text, with the markdown body as its plain text. */
+async function copyAsRichText() {
+  if (!editor) return;
+  const body = editor.action((ctx) => serializeBody(ctx, ctx.get(editorViewCtx).state.doc));
+  vscode.postMessage({ type: 'richTextCopied', copied: await copyRichText(body) });
+}
+
+function goToAnchor(anchor: string) {
+  if (!editor) {
+    pendingAnchor = anchor;
+    return;
+  }
+  editor.action((ctx) => scrollToAnchor(ctx.get(editorViewCtx), anchor));
+}
+
 // Table functions
 function insertTable(rows: number, cols: number) {
   // Focus editor first to ensure table inserts at cursor position
@@ -886,10 +1521,12 @@ function setupToolbar() {
   document.getElementById('btn-h3')?.addEventListener('click', () => setHeading(3));
   document.getElementById('btn-bullet-list')?.addEventListener('click', toggleBulletList);
   document.getElementById('btn-ordered-list')?.addEventListener('click', toggleOrderedList);
+  document.getElementById('btn-task-list')?.addEventListener('click', toggleTaskList);
   document.getElementById('btn-blockquote')?.addEventListener('click', toggleBlockquote);
   document.getElementById('btn-codeblock')?.addEventListener('click', insertCodeBlock);
   document.getElementById('btn-link')?.addEventListener('click', insertLink);
   document.getElementById('btn-hr')?.addEventListener('click', insertHorizontalRule);
+  setupCalloutDropdown(setCallout);
 
   // Make rendered markdown links actionable by delegating open behavior to extension host.
   document.getElementById('editor')?.addEventListener('click', handleRenderedLinkClick);
@@ -985,6 +1622,19 @@ function setupKeyboardShortcuts() {
       lastLocalEditAt = Date.now();
     }
 
+    if (handleFindKeydown(e)) {
+      return;
+    }
+
+    // Frontmatter inputs handle their own keys; editor shortcuts must not fire there.
+    if (target && target.closest && target.closest('#frontmatter-container')) {
+      return;
+    }
+
+    if (handleWikiLinkPickerKeydown(e)) {
+      return;
+    }
+
     // Handle slash menu navigation
     if (slashMenuVisible) {
       const query = getSlashQuery();
@@ -1031,6 +1681,11 @@ function setupKeyboardShortcuts() {
       } else {
         toggleInlineCode();
       }
+    } else if (isMod && e.shiftKey && e.code === 'Digit9') {
+      // Cmd+Shift+9 for task list (e.key is '(' on most layouts)
+      e.preventDefault();
+      e.stopPropagation();
+      toggleTaskList();
     } else if (isMod && e.shiftKey && e.key === '.') {
       // Cmd+Shift+. for blockquote
       e.preventDefault();
@@ -1062,9 +1717,12 @@ async function initializeEditor(content: string) {
   if (!editorContainer) return;
 
   setupFrontmatterToggle();
+  setupFrontmatterEditing();
   const editorContent = applyFrontmatterStateFromContent(content);
   const safeEditorContent = ensureNoFrontmatterInEditorContent(editorContent, 'initializeEditor');
   lastKnownMarkdown = content;
+  // Before create(): the outline is reported as soon as the editor view exists
+  setupOutline((message) => vscode.postMessage(message));
 
   editor = await Editor.make()
     .config((ctx) => {
@@ -1073,23 +1731,59 @@ async function initializeEditor(content: string) {
       ctx.get(listenerCtx).markdownUpdated((ctx, markdown, prevMarkdown) => {
         if (!isUpdatingFromExtension && markdown !== prevMarkdown) {
           lastLocalEditAt = Date.now();
-          const safeMarkdown = sanitizeOutgoingMarkdown(markdown);
-          const fullMarkdown = combineFrontmatter(currentFrontmatterRawBlock, safeMarkdown);
-          lastKnownMarkdown = fullMarkdown;
-          sendOutgoingEdit(fullMarkdown);
+          syncLocalChanges(ctx);
         }
       });
+      ctx.get(listenerCtx).selectionUpdated(() => postRenderedCursor());
     })
     .config(nord)
+    .use(rawSource)
+    .use(math)
     .use(commonmark)
+    .use(callout)
+    .use(wikiLinks)
     .use(gfm)
+    .use(taskLists)
+    .use(footnotes)
+    .use(outline)
+    .use(findReplace)
+    .use(mermaidDiagrams)
+    .use(codeBlocks)
+    .use(localImages)
+    .use(pasteHtml)
     .use(history)
     .use(listener)
+    .use(externalChangeHighlight)
+    .use(sourceCursorHighlight)
     .create();
+  lastSyncedDoc = editor.ctx.get(editorViewCtx).state.doc;
+  sourceMap = buildSourceMap(editor.ctx, safeEditorContent, lastSyncedDoc);
 
   setupToolbar();
   setupKeyboardShortcuts();
   setupSlashCommands();
+  setupReviewPanel((message) => vscode.postMessage(message));
+  setupWikiLinks((message) => vscode.postMessage(message));
+  setupImageUpload((message) => vscode.postMessage(message));
+  setupFindReplace(() => editor?.ctx.get(editorViewCtx) ?? null);
+
+  if (pendingAnchor !== null) {
+    goToAnchor(pendingAnchor);
+    pendingAnchor = null;
+  }
+  setupSourceSync();
+  if (pendingSourceScroll !== null) {
+    scrollToSourceLine(pendingSourceScroll);
+    pendingSourceScroll = null;
+  }
+  if (pendingSourceCursor !== null) {
+    showSourceCursor(pendingSourceCursor);
+    pendingSourceCursor = null;
+  }
+  if (pendingSourceLocation !== null) {
+    revealSourceLocation(pendingSourceLocation);
+    pendingSourceLocation = null;
+  }
 }
 
 function setupSlashCommands() {
@@ -1106,8 +1800,10 @@ function setupSlashCommands() {
     editorDOM.addEventListener('input', () => {
       setTimeout(() => {
         checkForSlashTrigger();
+        checkForWikiLinkTrigger(view);
       }, 0);
     });
+    editorDOM.addEventListener('blur', () => hideWikiLinkPicker());
     
     // Also listen for keyup on "/" to catch trigger input immediately
     editorDOM.addEventListener('keyup', (e) => {
@@ -1193,7 +1889,7 @@ function applyPendingUpdate() {
   if (!editor || pendingUpdate === null) return;
 
   // Avoid applying external updates while the user is actively typing.
-  // Applying replaceAll mid-typing can reset selection and cause the cursor to "jump".
+  // Even a minimal transaction mid-keystroke can interfere with IME composition and input rules.
   const msSinceLocalEdit = Date.now() - lastLocalEditAt;
   if (msSinceLocalEdit < USER_IDLE_BEFORE_EXTERNAL_APPLY_MS) {
     if (updateDebounceTimer) {
@@ -1206,8 +1902,18 @@ function applyPendingUpdate() {
     return;
   }
 
+  // Local edits the host hasn't seen yet would be overwritten by this update. Send them first;
+  // the host merges them with the newer document and pushes the merged result back.
+  editor.action(syncLocalChanges);
+  if (pendingOutgoingEdit !== null) {
+    flushOutgoingEdit();
+    pendingUpdate = null;
+    return;
+  }
+
   const fullContent = pendingUpdate;
   pendingUpdate = null;
+  currentVersion = pendingUpdateVersion;
   
   // Fast-path: use cached markdown for comparison (avoids expensive getMarkdown() call)
   const normalizedContent = normalizeMarkdownForCompare(fullContent);
@@ -1222,34 +1928,17 @@ function applyPendingUpdate() {
   const editorContent = applyFrontmatterStateFromContent(fullContent);
   const safeEditorContent = ensureNoFrontmatterInEditorContent(editorContent, 'applyPendingUpdate');
   
-  // Batch all operations into a single editor.action() for better performance
   try {
     editor.action((ctx) => {
-      const view = ctx.get(editorViewCtx);
-      
-      // Save cursor position
-      const { anchor } = view.state.selection;
-      
-      // Apply content update via replaceAll
-      replaceAll(safeEditorContent)(ctx);
-      
-      // Update cache
+      applyIncrementalUpdate(ctx, safeEditorContent);
       lastKnownMarkdown = fullContent;
-      
-      // Restore cursor position (clamped to valid range)
-      try {
-        const newView = ctx.get(editorViewCtx);
-        const docLength = newView.state.doc.content.size;
-        const clampedAnchor = Math.min(Math.max(1, anchor), docLength - 1);
-        const newSelection = TextSelection.create(newView.state.doc, clampedAnchor);
-        newView.dispatch(newView.state.tr.setSelection(newSelection));
-      } catch {
-        // If selection restoration fails, that's okay
-      }
+      lastSyncedDoc = ctx.get(editorViewCtx).state.doc;
+      // Rebuilt even when no block changed, since the update may only differ in formatting.
+      sourceMap = buildSourceMap(ctx, safeEditorContent, lastSyncedDoc);
     });
   } catch (e) {
-    console.warn('replaceAll failed, falling back to re-initialization:', e);
-    // Fallback: reinitialize if replaceAll fails
+    console.warn('Incremental update failed, falling back to re-initialization:', e);
+    // Fallback: reinitialize if the diffed transaction cannot be applied
     reinitializeEditor(fullContent);
   }
   
@@ -1271,19 +1960,33 @@ async function reinitializeEditor(content: string) {
         ctx.get(listenerCtx).markdownUpdated((ctx, markdown, prevMarkdown) => {
           if (!isUpdatingFromExtension && markdown !== prevMarkdown) {
             lastLocalEditAt = Date.now();
-            const safeMarkdown = sanitizeOutgoingMarkdown(markdown);
-            const fullMarkdown = combineFrontmatter(currentFrontmatterRawBlock, safeMarkdown);
-            lastKnownMarkdown = fullMarkdown;
-            sendOutgoingEdit(fullMarkdown);
+            syncLocalChanges(ctx);
           }
         });
+        ctx.get(listenerCtx).selectionUpdated(() => postRenderedCursor());
       })
       .config(nord)
+      .use(rawSource)
+      .use(math)
       .use(commonmark)
+      .use(callout)
+      .use(wikiLinks)
       .use(gfm)
+      .use(taskLists)
+      .use(footnotes)
+      .use(outline)
+      .use(findReplace)
+      .use(mermaidDiagrams)
+      .use(codeBlocks)
+      .use(localImages)
+      .use(pasteHtml)
       .use(history)
       .use(listener)
+      .use(externalChangeHighlight)
+      .use(sourceCursorHighlight)
       .create();
+    lastSyncedDoc = editor.ctx.get(editorViewCtx).state.doc;
+    sourceMap = buildSourceMap(editor.ctx, safeEditorContent, lastSyncedDoc);
     
     // Re-setup event handlers after reinitialization
     setupToolbar();
@@ -1298,9 +2001,87 @@ window.addEventListener('message', async (event) => {
 
   switch (message.type) {
     case 'update':
-      currentVersion = message.version;
+      // The version only becomes the edit base once the update is actually applied.
+      if (editor) {
+        pendingUpdateVersion = message.version;
+      } else {
+        currentVersion = message.version;
+      }
+      preserveSourceFormatting = message.preserveSourceFormatting !== false;
       await updateEditorContent(message.content);
       break;
+
+    case 'externalChanges':
+      renderExternalChanges(message.hunks);
+      break;
+
+    case 'frontmatterIssues':
+      updateFrontmatterIssues(message.issues);
+      break;
+
+    case 'wikiLinkTargets':
+      setWikiLinkTargets(message.targets, message.documentPath);
+      break;
+
+    case 'wikiLinkHeadings':
+      setWikiLinkHeadings(message.target, message.headings);
+      break;
+
+    case 'imageBase':
+      setImageBase(message.documentBase, message.workspaceBase);
+      break;
+
+    case 'imageChanged':
+      refreshImage(message.uri);
+      break;
+
+    case 'imageSaved':
+      imageSaved(message.requestId, message.path);
+      break;
+
+    case 'imageSaveFailed':
+      imageSaveFailed(message.requestId);
+      break;
+
+    case 'revealHeading':
+      editor?.action((ctx) => revealHeading(ctx.get(editorViewCtx), message.index));
+      break;
+
+    case 'scrollToAnchor':
+      goToAnchor(message.anchor);
+      break;
+
+    case 'requestSourceLocation':
+      vscode.postMessage({ type: 'sourceLocation', requestId: message.requestId, location: currentSourceLocation() });
+      break;
+
+    case 'revealSourceLocation':
+      revealSourceLocation(message.location);
+      break;
+
+    case 'sourceEditorVisible':
+      setSourceEditorVisible(message.visible);
+      break;
+
+    case 'sourceScroll':
+      scrollToSourceLine(message.line);
+      break;
+
+    case 'sourceCursor':
+      showSourceCursor(message.line);
+      break;
+
+    case 'requestExportHtml':
+      await postExportedHtml(message.requestId, message.includeFrontmatter);
+      break;
+
+    case 'copyAsRichText':
+      await copyAsRichText();
+      break;
+
+    case 'pastePlainText':
+      editor?.action((ctx) => pastePlainText(ctx.get(editorViewCtx), message.text));
+      break;
   }
 });
 
@@ -0,0 +1,230 @@
+import { isLocalImageUrl } from './images';
+
+/**
+ * Snapshots of the rendered document as plain HTML, for "Export to HTML" and "Copy as Rich
+ * Text". The node views' editing chrome (toolbars, source inputs, upload placeholders) and
+ * view-only decorations are stripped from a copy of the editor DOM, and images loaded from the
+ * document's folder are embedded as data URIs so the HTML still shows them outside VS Code.
+ */
+
+export interface RenderedExport {
+  /** `#editor-container` markup, preceded by the frontmatter panel when it was asked for. */
+  html: string;
+  /** The `--vscode-*` theme variables in effect, as a `:root` rule. */
+  themeCss: string;
+  /** `vscode-dark`, `vscode-light`, … so theme-dependent rules still apply. */
+  bodyClass: string;
+}
+
+const CHROME_SELECTORS = [
+  '.code-block-toolbar',
+  '.mermaid-toolbar',
+  '.mermaid-error',
+  '.math-source',
+  '.image-upload-placeholder',
+  '.ProseMirror-separator',
+  '.ProseMirror-trailingBreak',
+  '.ProseMirror-gapcursor',
+  '.column-resize-handle',
+  'pre.raw-source[data-kind="definition"]',
+];
+
+const DECORATION_CLASSES = [
+  'ProseMirror-selectednode',
+  'ProseMirror-focused',
+  'selectedCell',
+  'external-change',
+  'source-cursor-line',
+  'math-editing',
+];
+
+const FRONTMATTER_CHROME_SELECTORS = [
+  '.frontmatter-chevron',
+  '.frontmatter-issues',
+  '.frontmatter-delete-key',
+  '.frontmatter-chip-remove',
+  '.frontmatter-chip-input',
+  '.frontmatter-add-row',
+];
+
+const EDITING_ATTRIBUTES = ['contenteditable', 'spellcheck', 'draggable', 'translate', 'tabindex', 'role'];
+
+function unwrap(el: Element) {
+  el.replaceWith(...Array.from(el.childNodes));
+}
+
+function stripEditingState(root: Element) {
+  [root, ...Array.from(root.querySelectorAll('*'))].forEach((el) => {
+    EDITING_ATTRIBUTES.forEach((name) => el.removeAttribute(name));
+    el.classList.remove(...DECORATION_CLASSES);
+    if (el.getAttribute('class') === '') el.removeAttribute('class');
+  });
+}
+
+/**
+ * A copy of the rendered document (`#editor`'s content) as it reads, without anything that only
+ * exists for editing it.
+ */
+export function cleanRenderedHtml(editorEl: HTMLElement): HTMLElement {
+  const clone = editorEl.cloneNode(true) as HTMLElement;
+
+  // Checkbox state lives in the property, which cloning does not copy.
+  const checked = Array.from(editorEl.querySelectorAll<HTMLInputElement>('input[type="checkbox"]'), (box) => box.checked);
+  clone.querySelectorAll<HTMLInputElement>('input[type="checkbox"]').forEach((box, i) => {
+    box.toggleAttribute('checked', checked[i] ?? box.checked);
+    box.setAttribute('disabled', '');
+  });
+
+  clone.querySelectorAll(CHROME_SELECTORS.join(',')).forEach((el) => el.remove());
+  clone.querySelectorAll('.find-match').forEach(unwrap);
+
+  // Mermaid blocks show the diagram; the source only when it failed to render.
+  clone.querySelectorAll<HTMLElement>('.mermaid-block').forEach((block) => {
+    const diagram = block.querySelector<HTMLElement>('.mermaid-diagram');
+    const pre = block.querySelector<HTMLElement>('pre');
+    if (diagram?.querySelector('svg') && !block.classList.contains('has-error')) {
+      diagram.style.removeProperty('display');
+      pre?.remove();
+    } else {
+      diagram?.remove();
+      pre?.style.removeProperty('display');
+    }
+  });
+  clone.querySelectorAll<HTMLElement>('.math-rendered').forEach((el) => el.style.removeProperty('display'));
+
+  // Raw HTML blocks render as the HTML they contain; directives stay as written.
+  clone.querySelectorAll('pre.raw-source[data-kind="html"]').forEach((pre) => {
+    const template = document.createElement('template');
+    template.innerHTML = pre.textContent ?? '';
+    pre.replaceWith(template.content);
+  });
+
+  stripEditingState(clone);
+  return clone;
+}
+
+/** A copy of the frontmatter panel, expanded and without its editing controls. */
+export function cleanFrontmatterHtml(containerEl: HTMLElement): HTMLElement {
+  const clone = containerEl.cloneNode(true) as HTMLElement;
+  // Invalid YAML is shown in a text area, whose text lives in the value cloning does not copy.
+  const rawValues = Array.from(containerEl.querySelectorAll('textarea'), (area) => area.value);
+  clone.querySelectorAll('textarea').forEach((area, i) => {
+    const pre = document.createElement('pre');
+    pre.className = area.className;
+    pre.textContent = rawValues[i] ?? area.value;
+    area.replaceWith(pre);
+  });
+  clone.querySelectorAll(FRONTMATTER_CHROME_SELECTORS.join(',')).forEach((el) => el.remove());
+  clone.querySelectorAll('button').forEach((button) => {
+    const span = document.createElement('span');
+    span.className = button.className;
+    span.append(...Array.from(button.childNodes));
+    button.replaceWith(span);
+  });
+  clone.querySelectorAll('[title]').forEach((el) => el.removeAttribute('title'));
+  clone.classList.remove('is-collapsed', 'has-issues');
+  clone.classList.add('is-expanded');
+  clone.style.removeProperty('display');
+  clone.querySelectorAll<HTMLElement>('.frontmatter-content').forEach((el) => el.style.removeProperty('display'));
+  stripEditingState(clone);
+  return clone;
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Replaces webview URLs of local images with data URIs. An image that can't be read keeps the
+ * path written in the markdown, which still resolves next to the document.
+ */
+export async function embedLocalImages(root: HTMLElement) {
+  const images = Array.from(root.querySelectorAll('img')).filter((img) => isLocalImageUrl(img.getAttribute('src') ?? ''));
+  await Promise.all(
+    images.map(async (img) => {
+      try {
+        const response = await fetch(img.getAttribute('src')!);
+        if (!response.ok) throw new Error(response.statusText);
+        img.setAttribute('src', await readAsDataUrl(await response.blob()));
+      } catch {
+        img.setAttribute('src', img.dataset.src ?? '');
+      }
+      img.removeAttribute('data-src');
+    })
+  );
+}
+
+function themeVariables(): string {
+  const style = document.documentElement.style;
+  const declarations: string[] = [];
+  for (let i = 0; i < style.length; i++) {
+    const name = style.item(i);
+    if (name.startsWith('--vscode-')) declarations.push(`  ${name}: ${style.getPropertyValue(name)};`);
+  }
+  return `:root {\n${declarations.join('\n')}\n}`;
+}
+
+/** The rendered document, ready to be wrapped in a standalone HTML page by the extension host. */
+export async function exportRenderedHtml(includeFrontmatter: boolean): Promise<RenderedExport> {
+  const container = document.createElement('div');
+  const frontmatterEl = document.getElementById('frontmatter-container');
+  if (includeFrontmatter && frontmatterEl && frontmatterEl.style.display !== 'none') {
+    container.appendChild(cleanFrontmatterHtml(frontmatterEl));
+  }
+  const editorContainer = document.createElement('div');
+  editorContainer.id = 'editor-container';
+  const editorEl = document.getElementById('editor');
+  if (editorEl) editorContainer.appendChild(cleanRenderedHtml(editorEl));
+  container.appendChild(editorContainer);
+
+  await embedLocalImages(container);
+  return {
+    html: container.innerHTML,
+    themeCss: themeVariables(),
+    bodyClass: Array.from(document.body.classList).filter((name) => name.startsWith('vscode-')).join(' '),
+  };
+}
+
+function copyWithCommand(html: string, text: string): boolean {
+  const onCopy = (e: ClipboardEvent) => {
+    e.preventDefault();
+    e.clipboardData?.setData('text/html', html);
+    e.clipboardData?.setData('text/plain', text);
+  };
+  // On the document, so it runs after the editor's own copy handler and its data wins.
+  document.addEventListener('copy', onCopy);
+  try {
+    return document.execCommand('copy');
+  } finally {
+    document.removeEventListener('copy', onCopy);
+  }
+}
+
+/**
+ * Puts the rendered document on the clipboard as HTML, with `text` (the markdown) as the plain
+ * text flavor for targets that don't take rich text.
+ */
+export async function copyRichText(text: string): Promise<boolean> {
+  const editorEl = document.getElementById('editor');
+  if (!editorEl) return false;
+  const content = cleanRenderedHtml(editorEl);
+  await embedLocalImages(content);
+  const html = content.innerHTML;
+
+  try {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/html': new Blob([html], { type: 'text/html' }),
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+      }),
+    ]);
+    return true;
+  } catch {
+    return copyWithCommand(html, text);
+  }
+}
@@ -0,0 +1,208 @@
+import { editorViewCtx, parserCtx } from '@milkdown/core';
+import type { Ctx } from '@milkdown/ctx';
+import { Plugin, PluginKey } from '@milkdown/prose/state';
+import { Decoration, DecorationSet, EditorView } from '@milkdown/prose/view';
+import { $prose } from '@milkdown/utils';
+import { escapeHtml } from '../utils';
+
+export interface ExternalHunkSummary {
+  id: number;
+  line: number;
+  original: string;
+  current: string;
+}
+
+type HighlightMeta = { add: { from: number; to: number; id: number } } | { remove: number };
+
+const HIGHLIGHT_FADE_MS = 4000; // Keep in sync with the external-change-fade animation
+const highlightKey = new PluginKey<DecorationSet>('externalChangeHighlight');
+let nextHighlightId = 1;
+
+/**
+ * Decorates top-level blocks touched by an external writer. Decorations are mapped through
+ * later transactions and removed once the CSS fade has finished.
+ */
+export const externalChangeHighlight = $prose(
+  () =>
+    new Plugin<DecorationSet>({
+      key: highlightKey,
+      state: {
+        init: () => DecorationSet.empty,
+        apply: (tr, set) => {
+          let next = set.map(tr.mapping, tr.doc);
+          const meta = tr.getMeta(highlightKey) as HighlightMeta | undefined;
+          if (meta && 'add' in meta) {
+            const decorations: Decoration[] = [];
+            tr.doc.nodesBetween(meta.add.from, meta.add.to, (node, pos) => {
+              decorations.push(
+                Decoration.node(pos, pos + node.nodeSize, { class: 'external-change' }, { id: meta.add.id })
+              );
+              return false;
+            });
+            next = next.add(tr.doc, decorations);
+          } else if (meta && 'remove' in meta) {
+            next = next.remove(next.find(undefined, undefined, (spec) => spec.id === meta.remove));
+          }
+          return next;
+        },
+      },
+      props: {
+        decorations: (state) => highlightKey.getState(state),
+      },
+    })
+);
+
+/**
+ * Marks the top-level blocks between `from` and `to` as externally changed.
+ */
+export function highlightExternalChange(view: EditorView, from: number, to: number) {
+  if (to <= from) return;
+
+  const id = nextHighlightId++;
+  const meta: HighlightMeta = { add: { from, to, id } };
+  view.dispatch(view.state.tr.setMeta(highlightKey, meta).setMeta('addToHistory', false));
+
+  setTimeout(() => {
+    if (view.isDestroyed) return;
+    const removeMeta: HighlightMeta = { remove: id };
+    view.dispatch(view.state.tr.setMeta(highlightKey, removeMeta).setMeta('addToHistory', false));
+  }, HIGHLIGHT_FADE_MS);
+}
+
+/**
+ * Replaces only the top-level blocks that differ between the current doc and the parsed
+ * markdown. Selection (including table cell selections), scroll position and undo history
+ * are carried through the transaction's mapping instead of being reset.
+ */
+export function applyIncrementalUpdate(ctx: Ctx, markdown: string) {
+  const view = ctx.get(editorViewCtx);
+  const parser = ctx.get(parserCtx);
+  const nextDoc = parser(markdown);
+  if (!nextDoc) return;
+
+  const { state } = view;
+  const prevContent = state.doc.content;
+  const nextContent = nextDoc.content;
+
+  // Walk matching blocks in from both ends to find the changed window.
+  let start = 0;
+  let startPos = 0;
+  const minCount = Math.min(prevContent.childCount, nextContent.childCount);
+  while (start < minCount && prevContent.child(start).eq(nextContent.child(start))) {
+    startPos += prevContent.child(start).nodeSize;
+    start++;
+  }
+
+  if (start === prevContent.childCount && start === nextContent.childCount) {
+    return;
+  }
+
+  let prevEnd = prevContent.childCount;
+  let nextEnd = nextContent.childCount;
+  let prevEndPos = prevContent.size;
+  while (
+    prevEnd > start &&
+    nextEnd > start &&
+    prevContent.child(prevEnd - 1).eq(nextContent.child(nextEnd - 1))
+  ) {
+    prevEnd--;
+    nextEnd--;
+    prevEndPos -= prevContent.child(prevEnd).nodeSize;
+  }
+
+  // Matching prefix and suffix blocks have identical sizes in both docs.
+  const nextEndPos = nextContent.size - (prevContent.size - prevEndPos);
+  const tr = state.tr.replaceWith(startPos, prevEndPos, nextContent.cut(startPos, nextEndPos));
+  // External changes must not become local undo steps; history rebases existing steps over them.
+  // This also keeps the listener plugin from echoing the change back to the extension host.
+  tr.setMeta('addToHistory', false);
+  view.dispatch(tr);
+
+  highlightExternalChange(view, startPos, nextEndPos);
+}
+
+// ==========================================================================
+// Review Panel
+// ==========================================================================
+
+let reviewPanelInitialized = false;
+let currentHunks: ExternalHunkSummary[] = [];
+
+function renderHunkSide(text: string, kind: 'removed' | 'added'): string {
+  if (!text) return '';
+  return `<pre class="review-hunk-text review-hunk-${kind}">${escapeHtml(text.replace(/\n$/, ''))}</pre>`;
+}
+
+function renderReviewList() {
+  const list = document.getElementById('review-list');
+  if (!list) return;
+
+  if (currentHunks.length === 0) {
+    list.innerHTML = '<div class="review-empty">No unreviewed external changes</div>';
+    return;
+  }
+
+  list.innerHTML = currentHunks
+    .map(
+      (hunk) => `
+    <div class="review-hunk" data-id="${hunk.id}">
+      <div class="review-hunk-header">
+        <span class="review-hunk-line">Line ${hunk.line + 1}</span>
+        <span class="review-hunk-actions">
+          <button data-action="accept" data-id="${hunk.id}">Accept</button>
+          <button data-action="revert" data-id="${hunk.id}" class="danger">Revert</button>
+        </span>
+      </div>
+      ${renderHunkSide(hunk.original, 'removed')}
+      ${renderHunkSide(hunk.current, 'added')}
+    </div>`
+    )
+    .join('');
+}
+
+function updateReviewBadge() {
+  const badge = document.getElementById('review-count');
+  if (!badge) return;
+  badge.textContent = String(currentHunks.length);
+  badge.style.display = currentHunks.length > 0 ? 'inline-block' : 'none';
+}
+
+/**
+ * Shows the latest set of unreviewed hunks reported by the extension host.
+ */
+export function renderExternalChanges(hunks: ExternalHunkSummary[]) {
+  currentHunks = hunks;
+  updateReviewBadge();
+  renderReviewList();
+}
+
+export function setupReviewPanel(postMessage: (message: unknown) => void) {
+  if (reviewPanelInitialized) return;
+
+  const panel = document.getElementById('review-panel');
+  document.getElementById('btn-review')?.addEventListener('click', () => {
+    if (!panel) return;
+    panel.style.display = panel.style.display === 'none' ? 'block' : 'none';
+  });
+  document.getElementById('review-close')?.addEventListener('click', () => {
+    if (panel) panel.style.display = 'none';
+  });
+  document.getElementById('review-accept-all')?.addEventListener('click', () => {
+    postMessage({ type: 'acceptAllExternalChanges' });
+  });
+  document.getElementById('review-revert-all')?.addEventListener('click', () => {
+    postMessage({ type: 'revertAllExternalChanges' });
+  });
+  document.getElementById('review-list')?.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement | null)?.closest('button[data-action]') as HTMLButtonElement | null;
+    if (!button) return;
+    const hunkId = Number(button.dataset.id);
+    postMessage({
+      type: button.dataset.action === 'revert' ? 'revertExternalChange' : 'acceptExternalChange',
+      hunkId,
+    });
+  });
+
+  renderExternalChanges(currentHunks);
+  reviewPanelInitialized = true;
+}
@@ -0,0 +1,389 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
+import { Plugin, PluginKey, TextSelection, type EditorState } from '@milkdown/prose/state';
+import { Decoration, DecorationSet, type EditorView } from '@milkdown/prose/view';
+import { $prose } from '@milkdown/utils';
+
+/**
+ * Find and replace over the rendered text. Matches are found per textblock (so they never span
+ * paragraphs) and highlighted with decorations; replacements are ordinary transactions, so they
+ * sync to the TextDocument like any other edit and undo as one step.
+ */
+
+export interface FindQuery {
+  text: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface FindMatch {
+  from: number;
+  to: number;
+  /** Capture groups, for `$1` / `$<name>` in regex replacements. */
+  groups: string[];
+  named: Record<string, string>;
+}
+
+interface FindState {
+  query: FindQuery;
+  matches: FindMatch[];
+  current: number;
+  error: string | null;
+  decorations: DecorationSet;
+}
+
+/** `query` starts a new search; `current` moves between matches; `after` follows a replacement. */
+type FindMeta = { query: FindQuery } | { current: number } | { after: number };
+
+/** Stands in for inline nodes (wikilinks, math, images) so offsets stay aligned with positions. */
+const INLINE_PLACEHOLDER = '\uFFFC';
+
+const EMPTY_QUERY: FindQuery = { text: '', caseSensitive: false, wholeWord: false, regex: false };
+
+const findKey = new PluginKey<FindState>('findReplace');
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** The search as a global RegExp; throws on an invalid regular expression. */
+export function buildFindPattern(query: FindQuery): RegExp {
+  let source = query.regex ? query.text : escapeRegExp(query.text);
+  if (query.wholeWord) source = `\\b(?:${source})\\b`;
+  return new RegExp(source, query.caseSensitive ? 'g' : 'gi');
+}
+
+/** Every match of `query` in `doc`, in document order, or the reason the pattern is invalid. */
+export function findMatches(doc: ProseNode, query: FindQuery): { matches: FindMatch[]; error: string | null } {
+  if (!query.text) return { matches: [], error: null };
+
+  let pattern: RegExp;
+  try {
+    pattern = buildFindPattern(query);
+  } catch (error) {
+    return { matches: [], error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const matches: FindMatch[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+
+    let text = '';
+    node.forEach((child) => {
+      text += child.isText ? child.text! : INLINE_PLACEHOLDER.repeat(child.nodeSize);
+    });
+
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      if (!match[0]) {
+        pattern.lastIndex++;
+        continue;
+      }
+      matches.push({
+        from: pos + 1 + match.index,
+        to: pos + 1 + match.index + match[0].length,
+        groups: [...match],
+        named: { ...match.groups },
+      });
+    }
+    return false;
+  });
+  return { matches, error: null };
+}
+
+/** Expands `$&`, `$1`…`$99`, `$<name>` and `$$` in a regex replacement, as String.replace does. */
+export function expandReplacement(replacement: string, match: FindMatch): string {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match.groups[0];
+    if (name !== undefined) return match.named[name] ?? '';
+    const index = Number(ref);
+    return index > 0 && index < match.groups.length ? match.groups[index] ?? '' : token;
+  });
+}
+
+function buildState(doc: ProseNode, query: FindQuery, current: (matches: FindMatch[]) => number): FindState {
+  const { matches, error } = findMatches(doc, query);
+  const index = matches.length ? current(matches) : -1;
+  const decorations = DecorationSet.create(
+    doc,
+    matches.map(({ from, to }, i) =>
+      Decoration.inline(from, to, { class: i === index ? 'find-match find-match-current' : 'find-match' })
+    )
+  );
+  return { query, matches, current: index, error, decorations };
+}
+
+/** Index of the first match starting at or after `pos`, wrapping to the first match. */
+function firstMatchFrom(matches: FindMatch[], pos: number): number {
+  const index = matches.findIndex((match) => match.from >= pos);
+  return index === -1 ? 0 : index;
+}
+
+export const findHighlight = $prose(
+  () =>
+    new Plugin<FindState>({
+      key: findKey,
+      state: {
+        init: (_, state) =>
+          buildState(state.doc, activeQuery, (matches) => firstMatchFrom(matches, state.selection.from)),
+        apply: (tr, prev, _, state) => {
+          const meta = tr.getMeta(findKey) as FindMeta | undefined;
+          if (meta && 'query' in meta) {
+            return buildState(tr.doc, meta.query, (matches) => firstMatchFrom(matches, state.selection.from));
+          }
+          if (meta && 'current' in meta) {
+            return buildState(tr.doc, prev.query, (matches) => Math.min(meta.current, matches.length - 1));
+          }
+          if (meta && 'after' in meta) {
+            return buildState(tr.doc, prev.query, (matches) => firstMatchFrom(matches, meta.after));
+          }
+          if (!tr.docChanged || !prev.query.text) return prev;
+          const previous = prev.matches[prev.current];
+          const anchor = previous ? tr.mapping.map(previous.from, -1) : 0;
+          return buildState(tr.doc, prev.query, (matches) => firstMatchFrom(matches, anchor));
+        },
+      },
+      props: {
+        decorations: (state) => findKey.getState(state)?.decorations,
+      },
+      view: () => ({
+        update: (view) => renderFindCount(view.state),
+      }),
+    })
+);
+
+export function getFindState(state: EditorState): FindState | undefined {
+  return findKey.getState(state);
+}
+
+/** Searches for `query`, starting from the match at or after the cursor. */
+export function setFindQuery(view: EditorView, query: FindQuery) {
+  view.dispatch(view.state.tr.setMeta(findKey, { query } satisfies FindMeta).setMeta('addToHistory', false));
+}
+
+/** Selects the next (or previous) match, wrapping around, and scrolls it into view. */
+export function findNext(view: EditorView, direction: 1 | -1 = 1) {
+  const find = getFindState(view.state);
+  if (!find?.matches.length) return;
+
+  const selected = find.matches[find.current];
+  const isSelected = selected && view.state.selection.from === selected.from && view.state.selection.to === selected.to;
+  // The first Enter after searching lands on the highlighted match rather than skipping it
+  const step = isSelected || direction === -1 ? direction : 0;
+  const current = (Math.max(find.current, 0) + step + find.matches.length) % find.matches.length;
+  const { from, to } = find.matches[current];
+  view.dispatch(
+    view.state.tr
+      .setSelection(TextSelection.create(view.state.doc, from, to))
+      .setMeta(findKey, { current } satisfies FindMeta)
+      .scrollIntoView()
+  );
+}
+
+function replacementFor(query: FindQuery, replacement: string, match: FindMatch): string {
+  return query.regex ? expandReplacement(replacement, match) : replacement;
+}
+
+/** Replaces the current match and moves on to the next one. */
+export function replaceCurrent(view: EditorView, replacement: string) {
+  const find = getFindState(view.state);
+  const match = find?.matches[find.current];
+  if (!find || !match) return;
+
+  const text = replacementFor(find.query, replacement, match);
+  const tr = view.state.tr;
+  if (text) tr.insertText(text, match.from, match.to);
+  else tr.delete(match.from, match.to);
+  view.dispatch(tr.setMeta(findKey, { after: match.from + text.length } satisfies FindMeta));
+  findNext(view);
+}
+
+/** Replaces every match in one transaction, so a single undo restores them all. */
+export function replaceAll(view: EditorView, replacement: string): number {
+  const find = getFindState(view.state);
+  if (!find?.matches.length) return 0;
+
+  const tr = view.state.tr;
+  [...find.matches].reverse().forEach((match) => {
+    const text = replacementFor(find.query, replacement, match);
+    if (text) tr.insertText(text, match.from, match.to);
+    else tr.delete(match.from, match.to);
+  });
+  view.dispatch(tr.scrollIntoView());
+  return find.matches.length;
+}
+
+// ==========================================================================
+// Find Bar
+// ==========================================================================
+
+let findBarInitialized = false;
+let activeQuery: FindQuery = EMPTY_QUERY;
+let getView: () => EditorView | null = () => null;
+
+function isFindBarOpen(): boolean {
+  const bar = document.getElementById('find-bar');
+  return Boolean(bar && bar.style.display !== 'none');
+}
+
+function renderFindCount(state: EditorState) {
+  const count = document.getElementById('find-count');
+  const input = document.getElementById('find-input');
+  const find = getFindState(state);
+  if (!count || !input || !find) return;
+
+  input.classList.toggle('error', Boolean(find.error));
+  input.title = find.error ?? '';
+  if (!find.query.text) count.textContent = '';
+  else if (find.error) count.textContent = 'Invalid pattern';
+  else if (!find.matches.length) count.textContent = 'No results';
+  else count.textContent = `${find.current + 1} of ${find.matches.length}`;
+  count.classList.toggle('empty', Boolean(find.query.text) && !find.matches.length);
+}
+
+function readQuery(): FindQuery {
+  const pressed = (id: string) => document.getElementById(id)?.classList.contains('active') ?? false;
+  return {
+    text: (document.getElementById('find-input') as HTMLInputElement | null)?.value ?? '',
+    caseSensitive: pressed('find-case'),
+    wholeWord: pressed('find-word'),
+    regex: pressed('find-regex'),
+  };
+}
+
+function search() {
+  activeQuery = readQuery();
+  const view = getView();
+  if (view) setFindQuery(view, activeQuery);
+}
+
+function replacementText(): string {
+  return (document.getElementById('replace-input') as HTMLInputElement | null)?.value ?? '';
+}
+
+function setReplaceVisible(visible: boolean) {
+  const row = document.getElementById('find-replace-row');
+  const toggle = document.getElementById('find-toggle-replace');
+  if (row) row.style.display = visible ? 'flex' : 'none';
+  if (toggle) toggle.textContent = visible ? '▼' : '▶';
+}
+
+/** Shows the find bar, seeded with the selected text, and focuses the find (or replace) field. */
+export function openFindBar(withReplace: boolean) {
+  const bar = document.getElementById('find-bar');
+  const input = document.getElementById('find-input') as HTMLInputElement | null;
+  if (!bar || !input) return;
+
+  const view = getView();
+  if (view && !view.state.selection.empty) {
+    const { from, to } = view.state.selection;
+    const selected = view.state.doc.textBetween(from, to, '\n');
+    if (selected && !selected.includes('\n')) input.value = selected;
+  }
+
+  bar.style.display = 'flex';
+  if (withReplace) setReplaceVisible(true);
+  search();
+
+  const field = withReplace ? (document.getElementById('replace-input') as HTMLInputElement | null) : input;
+  field?.focus();
+  field?.select();
+}
+
+export function closeFindBar() {
+  const bar = document.getElementById('find-bar');
+  if (bar) bar.style.display = 'none';
+  activeQuery = EMPTY_QUERY;
+  const view = getView();
+  if (!view) return;
+  setFindQuery(view, EMPTY_QUERY);
+  view.focus();
+}
+
+/**
+ * Find shortcuts, wherever focus is. Returns true when the event belongs to the find bar, so the
+ * editor's own shortcuts don't fire while typing in it.
+ */
+export function handleFindKeydown(e: KeyboardEvent): boolean {
+  const isMod = e.metaKey || e.ctrlKey;
+  const target = e.target as HTMLElement | null;
+  const inFindBar = Boolean(target && target.closest && target.closest('#find-bar'));
+  const view = getView();
+
+  const handled = () => {
+    e.preventDefault();
+    e.stopPropagation();
+    return true;
+  };
+
+  if (isMod && !e.shiftKey && !e.altKey && e.key === 'f') {
+    openFindBar(false);
+    return handled();
+  }
+  if ((isMod && !e.shiftKey && !e.altKey && e.key === 'h') || (isMod && e.altKey && e.code === 'KeyF')) {
+    openFindBar(true);
+    return handled();
+  }
+  if (!isFindBarOpen()) return false;
+
+  if (e.key === 'F3' || (isMod && e.key.toLowerCase() === 'g')) {
+    if (view) findNext(view, e.shiftKey ? -1 : 1);
+    return handled();
+  }
+  if (e.key === 'Escape' && (inFindBar || view?.hasFocus())) {
+    closeFindBar();
+    return handled();
+  }
+  if (!inFindBar) return false;
+
+  if (e.key === 'Enter' && view) {
+    if (isMod && e.altKey) replaceAll(view, replacementText());
+    else if (target?.id === 'replace-input') replaceCurrent(view, replacementText());
+    else findNext(view, e.shiftKey ? -1 : 1);
+    return handled();
+  }
+  return true;
+}
+
+export function setupFindReplace(viewGetter: () => EditorView | null) {
+  getView = viewGetter;
+  if (findBarInitialized) return;
+
+  const input = document.getElementById('find-input');
+  if (!input) return;
+
+  input.addEventListener('input', search);
+  ['find-case', 'find-word', 'find-regex'].forEach((id) => {
+    document.getElementById(id)?.addEventListener('click', (e) => {
+      (e.currentTarget as HTMLElement).classList.toggle('active');
+      search();
+    });
+  });
+  document.getElementById('find-prev')?.addEventListener('click', () => {
+    const view = getView();
+    if (view) findNext(view, -1);
+  });
+  document.getElementById('find-next')?.addEventListener('click', () => {
+    const view = getView();
+    if (view) findNext(view, 1);
+  });
+  document.getElementById('find-close')?.addEventListener('click', closeFindBar);
+  document.getElementById('find-toggle-replace')?.addEventListener('click', () => {
+    setReplaceVisible(document.getElementById('find-replace-row')?.style.display === 'none');
+  });
+  document.getElementById('replace-one')?.addEventListener('click', () => {
+    const view = getView();
+    if (view) replaceCurrent(view, replacementText());
+  });
+  document.getElementById('replace-all')?.addEventListener('click', () => {
+    const view = getView();
+    if (view) replaceAll(view, replacementText());
+  });
+
+  findBarInitialized = true;
+}
+
+export const findReplace: MilkdownPlugin[] = [findHighlight].flat();
@@ -0,0 +1,244 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import { DOMSerializer, type Node as ProseNode } from '@milkdown/prose/model';
+import { NodeSelection, TextSelection } from '@milkdown/prose/state';
+import type { EditorView, NodeView } from '@milkdown/prose/view';
+import { paragraphSchema } from '@milkdown/preset-commonmark';
+import { footnoteDefinitionSchema, footnoteReferenceSchema } from '@milkdown/preset-gfm';
+import { $command, $view } from '@milkdown/utils';
+
+/**
+ * GFM footnotes (`[^1]` and `[^1]: text`). The gfm preset parses and serializes them; this adds
+ * superscript markers with a hover preview of the note, a footnotes-section look for the
+ * definitions, and commands to insert a footnote and to renumber them all.
+ */
+
+const PREVIEW_DELAY_MS = 250;
+
+interface Found {
+  node: ProseNode;
+  pos: number;
+}
+
+function findAll(doc: ProseNode, typeName: string): Found[] {
+  const found: Found[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name === typeName) found.push({ node, pos });
+  });
+  return found;
+}
+
+export function findFootnoteDefinition(doc: ProseNode, label: string): Found | undefined {
+  return findAll(doc, 'footnote_definition').find(({ node }) => node.attrs.label === label);
+}
+
+/** One more than the highest numeric label in use, so new notes never clash with existing ones. */
+export function nextFootnoteLabel(doc: ProseNode): string {
+  let max = 0;
+  [...findAll(doc, 'footnote_reference'), ...findAll(doc, 'footnote_definition')].forEach(({ node }) => {
+    if (/^\d+$/.test(node.attrs.label)) max = Math.max(max, Number(node.attrs.label));
+  });
+  return String(max + 1);
+}
+
+// ==========================================================================
+// Hover Preview
+// ==========================================================================
+
+let previewTimer: ReturnType<typeof setTimeout> | null = null;
+
+function getPreviewElement(): HTMLElement {
+  let preview = document.getElementById('footnote-preview');
+  if (!preview) {
+    preview = document.createElement('div');
+    preview.id = 'footnote-preview';
+    preview.className = 'footnote-preview';
+    preview.style.display = 'none';
+    document.body.appendChild(preview);
+  }
+  return preview;
+}
+
+function showPreview(view: EditorView, anchor: HTMLElement, label: string) {
+  const preview = getPreviewElement();
+  const definition = findFootnoteDefinition(view.state.doc, label);
+  preview.replaceChildren();
+  if (definition) {
+    preview.classList.remove('missing');
+    preview.appendChild(DOMSerializer.fromSchema(view.state.schema).serializeFragment(definition.node.content));
+  } else {
+    preview.classList.add('missing');
+    preview.textContent = `Footnote [^${label}] has no definition`;
+  }
+
+  const rect = anchor.getBoundingClientRect();
+  preview.style.display = 'block';
+  preview.style.left = `${rect.left}px`;
+  preview.style.top = `${rect.bottom + 4}px`;
+  const box = preview.getBoundingClientRect();
+  if (box.bottom > window.innerHeight) preview.style.top = `${rect.top - box.height - 4}px`;
+  if (box.right > window.innerWidth) preview.style.left = `${window.innerWidth - box.width - 16}px`;
+}
+
+function hidePreview() {
+  if (previewTimer) clearTimeout(previewTimer);
+  previewTimer = null;
+  const preview = document.getElementById('footnote-preview');
+  if (preview) preview.style.display = 'none';
+}
+
+// ==========================================================================
+// Views
+// ==========================================================================
+
+function createReferenceView(initial: ProseNode, view: EditorView): NodeView {
+  const dom = document.createElement('sup');
+  dom.className = 'footnote-ref';
+  dom.dataset.type = 'footnote_reference';
+  let node = initial;
+
+  const render = () => {
+    dom.dataset.label = node.attrs.label;
+    dom.textContent = node.attrs.label;
+  };
+
+  dom.addEventListener('mouseenter', () => {
+    if (previewTimer) clearTimeout(previewTimer);
+    previewTimer = setTimeout(() => showPreview(view, dom, node.attrs.label), PREVIEW_DELAY_MS);
+  });
+  dom.addEventListener('mouseleave', hidePreview);
+  dom.addEventListener('mousedown', (e) => e.preventDefault());
+  dom.addEventListener('click', () => {
+    hidePreview();
+    const definition = findFootnoteDefinition(view.state.doc, node.attrs.label);
+    if (!definition) return;
+    const selection = TextSelection.near(view.state.doc.resolve(definition.pos + 1));
+    view.dispatch(view.state.tr.setSelection(selection).scrollIntoView());
+    view.focus();
+  });
+
+  render();
+
+  return {
+    dom,
+    update: (next) => {
+      if (next.type !== node.type) return false;
+      node = next;
+      render();
+      return true;
+    },
+    ignoreMutation: () => true,
+    destroy: hidePreview,
+  };
+}
+
+function createDefinitionView(initial: ProseNode, view: EditorView): NodeView {
+  const dom = document.createElement('div');
+  dom.className = 'footnote-definition';
+  dom.dataset.type = 'footnote_definition';
+  const marker = document.createElement('span');
+  marker.className = 'footnote-marker';
+  marker.contentEditable = 'false';
+  marker.title = 'Go to reference';
+  const content = document.createElement('div');
+  content.className = 'footnote-content';
+  dom.append(marker, content);
+  let node = initial;
+
+  const render = () => {
+    dom.dataset.label = node.attrs.label;
+    marker.textContent = node.attrs.label;
+  };
+
+  marker.addEventListener('mousedown', (e) => e.preventDefault());
+  marker.addEventListener('click', () => {
+    const reference = findAll(view.state.doc, 'footnote_reference').find(
+      ({ node: ref }) => ref.attrs.label === node.attrs.label
+    );
+    if (!reference) return;
+    view.dispatch(view.state.tr.setSelection(NodeSelection.create(view.state.doc, reference.pos)).scrollIntoView());
+    view.focus();
+  });
+
+  render();
+
+  return {
+    dom,
+    contentDOM: content,
+    update: (next) => {
+      if (next.type !== node.type) return false;
+      node = next;
+      render();
+      return true;
+    },
+    stopEvent: (event) => marker.contains(event.target as Node),
+    ignoreMutation: (mutation) => mutation.type !== 'selection' && !content.contains(mutation.target),
+  };
+}
+
+export const footnoteReferenceView = $view(footnoteReferenceSchema.node, () => (node, view) =>
+  createReferenceView(node, view)
+);
+
+export const footnoteDefinitionView = $view(footnoteDefinitionSchema.node, () => (node, view) =>
+  createDefinitionView(node, view)
+);
+
+// ==========================================================================
+// Commands
+// ==========================================================================
+
+/**
+ * Inserts a reference with the next free label at the cursor and an empty definition at the end
+ * of the document, then moves the cursor into the definition.
+ */
+export const insertFootnoteCommand = $command('InsertFootnote', (ctx) => () => (state, dispatch) => {
+  const label = nextFootnoteLabel(state.doc);
+  const reference = footnoteReferenceSchema.type(ctx).create({ label });
+  const definition = footnoteDefinitionSchema.type(ctx).create({ label }, paragraphSchema.type(ctx).create());
+
+  const tr = state.tr.replaceSelectionWith(reference, false);
+  const end = tr.doc.content.size;
+  tr.insert(end, definition);
+  tr.setSelection(TextSelection.create(tr.doc, end + 2));
+  dispatch?.(tr.scrollIntoView());
+  return true;
+});
+
+/**
+ * Relabels footnotes 1, 2, 3… in order of first reference (unreferenced definitions come last)
+ * and gathers the definitions at the end of the document in that order.
+ */
+export const renumberFootnotesCommand = $command('RenumberFootnotes', () => () => (state, dispatch) => {
+  const references = findAll(state.doc, 'footnote_reference');
+  const definitions = findAll(state.doc, 'footnote_definition');
+  if (!references.length && !definitions.length) return false;
+
+  const labels = new Map<string, string>();
+  [...references, ...definitions].forEach(({ node }) => {
+    if (!labels.has(node.attrs.label)) labels.set(node.attrs.label, String(labels.size + 1));
+  });
+
+  const tr = state.tr;
+  references.forEach(({ node, pos }) => {
+    tr.setNodeMarkup(pos, undefined, { ...node.attrs, label: labels.get(node.attrs.label) });
+  });
+
+  const relabeled = definitions
+    .map(({ node }) => node.type.create({ ...node.attrs, label: labels.get(node.attrs.label) }, node.content, node.marks))
+    .sort((a, b) => Number(a.attrs.label) - Number(b.attrs.label));
+  // Append the sorted copies first so the document never runs out of blocks, then drop the originals.
+  tr.insert(tr.doc.content.size, relabeled);
+  [...definitions].reverse().forEach(({ node, pos }) => {
+    tr.delete(pos, pos + node.nodeSize);
+  });
+
+  dispatch?.(tr.scrollIntoView());
+  return true;
+});
+
+export const footnotes: MilkdownPlugin[] = [
+  footnoteReferenceView,
+  footnoteDefinitionView,
+  insertFootnoteCommand,
+  renumberFootnotesCommand,
+].flat();
@@ -0,0 +1,178 @@
+import { isMap, isNode, isScalar, isSeq, parseDocument, stringify, Scalar } from 'yaml';
+
+/**
+ * Surgical edits to frontmatter YAML text. Every operation splices only the bytes of the node it
+ * targets, so key order, quoting style, indentation and comments of untouched keys survive
+ * exactly as written (SKILL.md and Obsidian tooling read these files too).
+ */
+
+export type FrontmatterPath = (string | number)[];
+
+type ScalarStyle = 'PLAIN' | 'QUOTE_DOUBLE' | 'QUOTE_SINGLE';
+
+function splice(text: string, start: number, end: number, insert: string): string {
+  return `${text.slice(0, start)}${insert}${text.slice(end)}`;
+}
+
+function lineStart(text: string, offset: number): number {
+  return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+function valueEnd(node: unknown): number | undefined {
+  return isNode(node) && node.range ? node.range[1] : undefined;
+}
+
+function lineEnd(text: string, offset: number): number {
+  const index = text.indexOf('\n', offset);
+  return index === -1 ? text.length : index;
+}
+
+/**
+ * Formats a scalar the way the existing node was written. Input is the text the user typed;
+ * numbers and booleans stay unquoted when the original value was of that type.
+ */
+function formatScalar(input: string, original: unknown, style: ScalarStyle): string {
+  if (typeof original === 'boolean' && /^(true|false)$/i.test(input)) {
+    return input.toLowerCase();
+  }
+  if (typeof original === 'number' && input.trim() !== '' && !Number.isNaN(Number(input))) {
+    return input.trim();
+  }
+  if (original instanceof Date && /^\d{4}-\d{2}-\d{2}([Tt ][\d:.]+([Zz]|[+-]\d{2}:?\d{2})?)?$/.test(input)) {
+    return input;
+  }
+  // stringify quotes PLAIN strings that would otherwise parse as another type or break syntax.
+  return stringify(input, { defaultStringType: style, lineWidth: 0 }).replace(/\n$/, '');
+}
+
+function styleOf(node: Scalar): ScalarStyle {
+  return node.type === 'QUOTE_DOUBLE' || node.type === 'QUOTE_SINGLE' ? node.type : 'PLAIN';
+}
+
+/**
+ * Whether a scalar at `path` can be edited inline (block scalars like `|` and `>` cannot).
+ */
+export function isEditableScalar(yamlText: string, path: FrontmatterPath): boolean {
+  const node = parseDocument(yamlText).getIn(path, true);
+  return isScalar(node) && (node.type === 'PLAIN' || node.type === 'QUOTE_DOUBLE' || node.type === 'QUOTE_SINGLE');
+}
+
+export function setFrontmatterScalar(yamlText: string, path: FrontmatterPath, input: string): string {
+  const node = parseDocument(yamlText).getIn(path, true);
+  if (!isScalar(node) || !node.range) return yamlText;
+
+  const [start, end] = node.range;
+  if (start === end) {
+    // Empty value (`key:`): separate the new value from the colon.
+    const separator = yamlText[start - 1] === ':' ? ' ' : '';
+    return splice(yamlText, start, end, `${separator}${formatScalar(input, null, 'PLAIN')}`);
+  }
+  return splice(yamlText, start, end, formatScalar(input, node.value, styleOf(node)));
+}
+
+export function addFrontmatterSequenceItem(yamlText: string, path: FrontmatterPath, input: string): string {
+  const doc = parseDocument(yamlText);
+  const node = doc.getIn(path, true);
+
+  if (isScalar(node) && node.value === null && node.range) {
+    // `tags:` with no items yet becomes a flow sequence.
+    const [start, end] = node.range;
+    const value = formatScalar(input, null, 'PLAIN');
+    return splice(yamlText, start, end, start === end ? ` [${value}]` : `[${value}]`);
+  }
+  if (!isSeq(node) || !node.range) return yamlText;
+
+  const items = node.items.filter(isScalar);
+  const style = items.length > 0 ? styleOf(items[items.length - 1]) : 'PLAIN';
+  const value = formatScalar(input, null, style);
+
+  if (node.flow || items.length === 0) {
+    const [start, end] = node.range;
+    const source = yamlText.slice(start, end);
+    const closing = source.lastIndexOf(']');
+    if (closing === -1) return yamlText;
+    const separator = items.length === 0 ? '' : ', ';
+    const insertAt = start + source.slice(0, closing).trimEnd().length;
+    return splice(yamlText, insertAt, insertAt, `${separator}${value}`);
+  }
+
+  const last = node.items[node.items.length - 1];
+  if (!isScalar(last) || !last.range) return yamlText;
+  const itemLineStart = lineStart(yamlText, last.range[0]);
+  const prefix = yamlText.slice(itemLineStart, last.range[0]);
+  const insertAt = lineEnd(yamlText, last.range[1]);
+  return splice(yamlText, insertAt, insertAt, `\n${prefix}${value}`);
+}
+
+export function removeFrontmatterSequenceItem(yamlText: string, path: FrontmatterPath, index: number): string {
+  const node = parseDocument(yamlText).getIn(path, true);
+  if (!isSeq(node) || !node.range) return yamlText;
+
+  const item = node.items[index];
+  if (!isScalar(item) || !item.range) return yamlText;
+
+  if (node.flow) {
+    const source = node.items
+      .filter((_, i) => i !== index)
+      .map((other) => (isScalar(other) && other.range ? yamlText.slice(other.range[0], other.range[1]) : ''))
+      .join(', ');
+    return splice(yamlText, node.range[0], node.range[1], `[${source}]`);
+  }
+
+  if (node.items.length === 1) {
+    // Keep the key but leave an explicit empty list rather than a null value.
+    const start = lineStart(yamlText, node.range[0]);
+    const keyLineEnd = yamlText.lastIndexOf('\n', start - 1);
+    return splice(yamlText, keyLineEnd, lineEnd(yamlText, item.range[1]), ' []');
+  }
+
+  const start = lineStart(yamlText, item.range[0]);
+  const end = lineEnd(yamlText, item.range[1]);
+  return splice(yamlText, start, Math.min(end + 1, yamlText.length), '');
+}
+
+export function addFrontmatterKey(yamlText: string, key: string, input: string): string {
+  const doc = parseDocument(yamlText);
+  const entry = `${formatScalar(key, null, 'PLAIN')}: ${formatScalar(input, null, 'PLAIN')}`;
+  if (!isMap(doc.contents) || doc.contents.items.length === 0) {
+    return yamlText.trim() ? `${yamlText}\n${entry}` : entry;
+  }
+  if (doc.contents.has(key)) return yamlText;
+
+  const last = doc.contents.items[doc.contents.items.length - 1];
+  const lastEnd = valueEnd(last.value) ?? doc.contents.range?.[1];
+  if (lastEnd === undefined) return yamlText;
+  const insertAt = lineEnd(yamlText, Math.max(lastEnd - 1, 0));
+  return splice(yamlText, insertAt, insertAt, `\n${entry}`);
+}
+
+export function deleteFrontmatterKey(yamlText: string, path: FrontmatterPath): string {
+  const doc = parseDocument(yamlText);
+  const parentPath = path.slice(0, -1);
+  const key = path[path.length - 1];
+  const parent = parentPath.length > 0 ? doc.getIn(parentPath, true) : doc.contents;
+  if (!isMap(parent)) return yamlText;
+
+  const pair = parent.items.find((item) => isScalar(item.key) && item.key.value === key);
+  if (!pair || !isScalar(pair.key) || !pair.key.range) return yamlText;
+
+  const pairEnd = valueEnd(pair.value) ?? pair.key.range[1];
+  if (parent.flow && parent.range) {
+    const source = parent.items
+      .filter((other) => other !== pair)
+      .map((other) => (isScalar(other.key) && other.key.range ? yamlText.slice(other.key.range[0], valueEnd(other.value) ?? other.key.range[1]) : ''))
+      .join(', ');
+    return splice(yamlText, parent.range[0], parent.range[1], `{${source}}`);
+  }
+
+  const start = lineStart(yamlText, pair.key.range[0]);
+  const end = lineEnd(yamlText, Math.max(pairEnd - 1, pair.key.range[1]));
+  if (parentPath.length > 0 && parent.items.length === 1) {
+    // Keep the parent key but leave an explicit empty map rather than a null value.
+    const keyLineEnd = yamlText.lastIndexOf('\n', start - 1);
+    return splice(yamlText, keyLineEnd, end, ' {}');
+  }
+  if (start === 0 && end >= yamlText.length) return '';
+  // Remove the pair's lines plus one line break so no blank line is left behind.
+  return end < yamlText.length ? splice(yamlText, start, end + 1, '') : splice(yamlText, start - 1, end, '');
+}
@@ -0,0 +1,203 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
+import { Plugin, PluginKey } from '@milkdown/prose/state';
+import { Decoration, DecorationSet, type EditorView, type NodeView } from '@milkdown/prose/view';
+import { imageSchema } from '@milkdown/preset-commonmark';
+import { $prose, $view } from '@milkdown/utils';
+
+/**
+ * Shows images referenced by relative paths. The node keeps the path as written in the markdown;
+ * only the rendered `<img>` points at the webview URI the extension host hands out for the
+ * document's folder (and workspace root, for `/`-prefixed paths).
+ */
+
+let documentBase: string | null = null;
+let workspaceBase: string | null = null;
+// Bumped when the file behind an image changes on disk, to bypass the webview's cache
+const imageVersions = new Map<string, number>();
+const liveViews = new Set<() => void>();
+
+function withTrailingSlash(uri: string): string {
+  return uri.endsWith('/') ? uri : `${uri}/`;
+}
+
+function imageKey(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname);
+  } catch {
+    return url;
+  }
+}
+
+export function setImageBase(document: string, workspace: string | null) {
+  documentBase = withTrailingSlash(document);
+  workspaceBase = workspace ? withTrailingSlash(workspace) : null;
+  liveViews.forEach((render) => render());
+}
+
+/** The URL to load for an image `src`; remote, data and already-resolved URLs pass through. */
+export function resolveImageSrc(src: string): string {
+  if (!src || /^[a-z][a-z0-9+.-]*:/i.test(src) || src.startsWith('//') || !documentBase) return src;
+
+  const base = src.startsWith('/') && workspaceBase ? workspaceBase : documentBase;
+  let url: URL;
+  try {
+    url = new URL(src.startsWith('/') ? src.slice(1) : src, base);
+  } catch {
+    return src;
+  }
+  const version = imageVersions.get(imageKey(url.href));
+  if (version) url.searchParams.set('v', String(version));
+  return url.href;
+}
+
+/** Whether a resolved image URL points into the document's folder or workspace. */
+export function isLocalImageUrl(url: string): boolean {
+  return [documentBase, workspaceBase].some((base) => base !== null && url.startsWith(base));
+}
+
+/** Reloads every image showing the file at `webviewUri`. */
+export function refreshImage(webviewUri: string) {
+  const key = imageKey(webviewUri);
+  imageVersions.set(key, (imageVersions.get(key) ?? 0) + 1);
+  liveViews.forEach((render) => render());
+}
+
+function createImageView(initial: ProseNode): NodeView {
+  const dom = document.createElement('img');
+  let node = initial;
+
+  const render = () => {
+    const src = resolveImageSrc(node.attrs.src);
+    if (dom.getAttribute('src') !== src) dom.setAttribute('src', src);
+    dom.alt = node.attrs.alt;
+    if (node.attrs.title) dom.title = node.attrs.title;
+    else dom.removeAttribute('title');
+    dom.dataset.src = node.attrs.src;
+  };
+
+  render();
+  liveViews.add(render);
+
+  return {
+    dom,
+    update: (next) => {
+      if (next.type !== node.type) return false;
+      node = next;
+      render();
+      return true;
+    },
+    destroy: () => liveViews.delete(render),
+  };
+}
+
+export const imageView = $view(imageSchema.node, () => (node) => createImageView(node));
+
+// ==========================================================================
+// Paste and Drop
+// ==========================================================================
+
+type UploadMeta = { add: { id: number; pos: number } } | { remove: number };
+
+const uploadKey = new PluginKey<DecorationSet>('imageUpload');
+let postMessage: (message: unknown) => void = () => {};
+let uploadView: EditorView | null = null;
+let nextRequestId = 1;
+const pendingAlts = new Map<number, string>();
+
+export function setupImageUpload(post: (message: unknown) => void) {
+  postMessage = post;
+}
+
+function imageFiles(data: DataTransfer | null): File[] {
+  return data ? Array.from(data.files).filter((file) => file.type.startsWith('image/')) : [];
+}
+
+/**
+ * Sends an image to the extension host to be saved as a file, leaving a placeholder at `pos`
+ * that follows later edits until the host replies with the saved path. Pasted screenshots are
+ * sent without a name (the browser calls them all `image.png`), so the host picks one.
+ */
+async function uploadImage(view: EditorView, file: File, pos: number, name: string) {
+  const id = nextRequestId++;
+  const meta: UploadMeta = { add: { id, pos } };
+  view.dispatch(view.state.tr.setMeta(uploadKey, meta).setMeta('addToHistory', false));
+  pendingAlts.set(id, name.replace(/\.[^.]*$/, ''));
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  postMessage({ type: 'saveImage', requestId: id, name, mimeType: file.type, data });
+}
+
+function takePlaceholder(view: EditorView, id: number): number | null {
+  const found = uploadKey.getState(view.state)?.find(undefined, undefined, (spec) => spec.id === id) ?? [];
+  const meta: UploadMeta = { remove: id };
+  view.dispatch(view.state.tr.setMeta(uploadKey, meta).setMeta('addToHistory', false));
+  return found.length ? found[0].from : null;
+}
+
+/** Replaces the placeholder for `requestId` with an image pointing at the saved file. */
+export function imageSaved(requestId: number, path: string) {
+  const alt = pendingAlts.get(requestId) ?? '';
+  pendingAlts.delete(requestId);
+  const view = uploadView;
+  if (!view) return;
+  const pos = takePlaceholder(view, requestId);
+  if (pos === null) return;
+  view.dispatch(view.state.tr.insert(pos, view.state.schema.nodes.image.create({ src: path, alt })));
+}
+
+export function imageSaveFailed(requestId: number) {
+  pendingAlts.delete(requestId);
+  if (uploadView) takePlaceholder(uploadView, requestId);
+}
+
+export const imageUpload = $prose(
+  () =>
+    new Plugin<DecorationSet>({
+      key: uploadKey,
+      state: {
+        init: () => DecorationSet.empty,
+        apply: (tr, set) => {
+          let next = set.map(tr.mapping, tr.doc);
+          const meta = tr.getMeta(uploadKey) as UploadMeta | undefined;
+          if (meta && 'add' in meta) {
+            const placeholder = document.createElement('span');
+            placeholder.className = 'image-upload-placeholder';
+            placeholder.textContent = 'Saving image…';
+            next = next.add(tr.doc, [Decoration.widget(meta.add.pos, placeholder, { id: meta.add.id })]);
+          } else if (meta && 'remove' in meta) {
+            next = next.remove(next.find(undefined, undefined, (spec) => spec.id === meta.remove));
+          }
+          return next;
+        },
+      },
+      props: {
+        decorations: (state) => uploadKey.getState(state),
+        handlePaste: (view, event) => {
+          const files = imageFiles(event.clipboardData);
+          if (!files.length) return false;
+          if (!view.state.selection.empty) view.dispatch(view.state.tr.deleteSelection());
+          files.forEach((file) => uploadImage(view, file, view.state.selection.from, ''));
+          return true;
+        },
+        handleDrop: (view, event) => {
+          const files = imageFiles(event.dataTransfer);
+          if (!files.length) return false;
+          event.preventDefault();
+          const pos = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos ?? view.state.selection.from;
+          files.forEach((file) => uploadImage(view, file, pos, file.name));
+          return true;
+        },
+      },
+      view: (view) => {
+        uploadView = view;
+        return {
+          destroy: () => {
+            if (uploadView === view) uploadView = null;
+          },
+        };
+      },
+    })
+);
+
+export const localImages: MilkdownPlugin[] = [imageView, imageUpload].flat();
@@ -0,0 +1,292 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
+import type { EditorView, NodeView } from '@milkdown/prose/view';
+import { $command, $nodeSchema, $remark, $view } from '@milkdown/utils';
+import katex from 'katex';
+import remarkMath from 'remark-math';
+import type { Processor } from 'unified';
+import 'katex/dist/katex.min.css';
+
+/**
+ * LaTeX math: inline `$…$` / `$$…$$` inside a paragraph and `$$` fenced blocks, rendered offline
+ * with KaTeX. Clicking a formula swaps it for its source; the source is committed on blur/Enter.
+ */
+
+interface MdNode {
+  type: string;
+  children?: MdNode[];
+  position?: { start: { offset?: number } };
+  [key: string]: unknown;
+}
+
+// The slice of micromark's tokenizer API the inline-math wrapper below touches.
+type Code = number | null;
+type State = (code: Code) => State | undefined;
+interface Effects {
+  consume(code: Code): void;
+}
+interface TextConstruct {
+  tokenize(this: unknown, effects: Effects, ok: State, nok: State): State;
+}
+
+const DOLLAR = 36;
+
+function isSpaceOrEnd(code: Code | undefined): boolean {
+  // micromark codes line endings, tabs and virtual spaces as negative numbers.
+  return code === null || code === undefined || code < 0 || code === 32;
+}
+
+/**
+ * Single-dollar math follows pandoc's rules, so prices like "$5 and $10" stay text: the opening
+ * `$` must be followed by a non-space, and the closing `$` preceded by a non-space and not
+ * followed by a digit. `$$…$$` is left to remark-math.
+ */
+function isPandocInlineMath(consumed: Code[], next: Code): boolean {
+  if (consumed[1] === DOLLAR) return true;
+  const afterOpen = consumed[1];
+  const beforeClose = consumed[consumed.length - 2];
+  return !isSpaceOrEnd(afterOpen) && !isSpaceOrEnd(beforeClose) && !(next !== null && next >= 48 && next <= 57);
+}
+
+function pandocInlineMath(construct: TextConstruct): TextConstruct {
+  return {
+    ...construct,
+    tokenize(effects, ok, nok) {
+      const consumed: Code[] = [];
+      const tracked: Effects = {
+        ...effects,
+        consume(code) {
+          consumed.push(code);
+          effects.consume(code);
+        },
+      };
+      return construct.tokenize.call(this, tracked, (code) => (isPandocInlineMath(consumed, code) ? ok(code) : nok(code)), nok);
+    },
+  };
+}
+
+/**
+ * remark-math's serializer escapes every `$` in text so it can't be read back as math; with the
+ * pandoc rules above a lone `$` already reads as text, so prices are written back as they were.
+ */
+function isPhrasingDollarEscape(pattern: { character?: string | null; inConstruct?: unknown; atBreak?: boolean | null }): boolean {
+  return pattern.character === '$' && pattern.inConstruct === 'phrasing' && !pattern.atBreak;
+}
+
+export const remarkMathPlugin = $remark('remarkMath', () => function (this: Processor) {
+  remarkMath.call(this);
+  const data = this.data();
+  const text = data.micromarkExtensions?.at(-1)?.text as Record<number, TextConstruct> | undefined;
+  if (text?.[DOLLAR]) text[DOLLAR] = pandocInlineMath(text[DOLLAR]);
+  const toMarkdown = data.toMarkdownExtensions?.at(-1);
+  if (toMarkdown?.unsafe) toMarkdown.unsafe = toMarkdown.unsafe.filter((pattern) => !isPhrasingDollarEscape(pattern));
+});
+
+/**
+ * remark-math does not record whether inline math used `$` or `$$`; keep the delimiter so the
+ * serializer writes it back unchanged.
+ */
+export const remarkMathDelimiter = $remark('remarkMathDelimiter', () => () => (tree, file) => {
+  const source = String(file.value);
+  const visit = (node: MdNode) => {
+    if (node.type === 'inlineMath' && node.position?.start.offset !== undefined) {
+      node.delimiter = source.startsWith('$$', node.position.start.offset) ? '$$' : '$';
+    }
+    node.children?.forEach(visit);
+  };
+  visit(tree as MdNode);
+});
+
+export const mathInlineSchema = $nodeSchema('math_inline', () => ({
+  group: 'inline',
+  inline: true,
+  atom: true,
+  attrs: {
+    value: { default: '' },
+    delimiter: { default: '$' },
+  },
+  parseDOM: [
+    {
+      tag: 'span[data-type="math-inline"]',
+      getAttrs: (dom) => ({
+        value: (dom as HTMLElement).dataset.value ?? '',
+        delimiter: (dom as HTMLElement).dataset.delimiter ?? '$',
+      }),
+    },
+  ],
+  toDOM: (node) => [
+    'span',
+    { 'data-type': 'math-inline', 'data-value': node.attrs.value, 'data-delimiter': node.attrs.delimiter },
+    node.attrs.value,
+  ],
+  parseMarkdown: {
+    match: ({ type }) => type === 'inlineMath',
+    runner: (state, node, type) => {
+      state.addNode(type, { value: node.value as string, delimiter: (node.delimiter as string) ?? '$' });
+    },
+  },
+  toMarkdown: {
+    match: (node) => node.type.name === 'math_inline',
+    runner: (state, node) => {
+      // Written as raw text: the inlineMath handler always picks its own delimiter length.
+      const { value, delimiter } = node.attrs;
+      state.addNode('html', undefined, `${delimiter}${value}${delimiter}`);
+    },
+  },
+}));
+
+export const mathBlockSchema = $nodeSchema('math_block', () => ({
+  group: 'block',
+  atom: true,
+  defining: true,
+  attrs: {
+    value: { default: '' },
+  },
+  parseDOM: [
+    {
+      tag: 'div[data-type="math-block"]',
+      getAttrs: (dom) => ({ value: (dom as HTMLElement).dataset.value ?? '' }),
+    },
+  ],
+  toDOM: (node) => ['div', { 'data-type': 'math-block', 'data-value': node.attrs.value }, node.attrs.value],
+  parseMarkdown: {
+    match: ({ type }) => type === 'math',
+    runner: (state, node, type) => {
+      state.addNode(type, { value: node.value as string });
+    },
+  },
+  toMarkdown: {
+    match: (node) => node.type.name === 'math_block',
+    runner: (state, node) => {
+      state.addNode('math', undefined, node.attrs.value);
+    },
+  },
+}));
+
+function renderMath(target: HTMLElement, value: string, displayMode: boolean) {
+  if (!value.trim()) {
+    target.textContent = displayMode ? 'Empty equation' : 'math';
+    target.classList.add('math-empty');
+    return;
+  }
+  target.classList.remove('math-empty');
+  katex.render(value, target, { displayMode, throwOnError: false, output: 'htmlAndMathml' });
+}
+
+function createMathView(node: ProseNode, view: EditorView, getPos: () => number | undefined, displayMode: boolean): NodeView {
+  const dom = document.createElement(displayMode ? 'div' : 'span');
+  dom.className = displayMode ? 'math-block' : 'math-inline';
+  dom.dataset.type = displayMode ? 'math-block' : 'math-inline';
+  const rendered = document.createElement(displayMode ? 'div' : 'span');
+  rendered.className = 'math-rendered';
+  dom.appendChild(rendered);
+
+  let current = node;
+  let input: HTMLInputElement | HTMLTextAreaElement | null = null;
+
+  const closeEditor = (commit: boolean) => {
+    if (!input) return;
+    const value = input.value;
+    input.remove();
+    input = null;
+    dom.classList.remove('math-editing');
+    rendered.style.display = '';
+
+    const pos = getPos();
+    if (commit && pos !== undefined && value !== current.attrs.value) {
+      view.dispatch(view.state.tr.setNodeMarkup(pos, undefined, { ...current.attrs, value }));
+    }
+    view.focus();
+  };
+
+  const openEditor = () => {
+    if (input || !view.editable) return;
+    input = document.createElement(displayMode ? 'textarea' : 'input');
+    input.className = 'math-source';
+    input.value = current.attrs.value;
+    input.spellcheck = false;
+    if (input instanceof HTMLTextAreaElement) {
+      input.rows = Math.max(2, current.attrs.value.split('\n').length);
+    } else {
+      input.size = Math.max(4, current.attrs.value.length);
+    }
+    input.addEventListener('keydown', (e) => {
+      const event = e as KeyboardEvent;
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        closeEditor(false);
+      } else if (event.key === 'Enter' && (!displayMode || event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        closeEditor(true);
+      }
+    });
+    input.addEventListener('blur', () => closeEditor(true));
+
+    dom.classList.add('math-editing');
+    rendered.style.display = 'none';
+    dom.appendChild(input);
+    input.focus();
+    input.select();
+  };
+
+  dom.addEventListener('click', (e) => {
+    if (input) return;
+    e.preventDefault();
+    openEditor();
+  });
+  renderMath(rendered, current.attrs.value, displayMode);
+  if (!current.attrs.value) {
+    // Freshly inserted formulas start in source mode.
+    setTimeout(openEditor, 0);
+  }
+
+  return {
+    dom,
+    update: (next) => {
+      if (next.type !== current.type) return false;
+      current = next;
+      if (!input) renderMath(rendered, current.attrs.value, displayMode);
+      return true;
+    },
+    selectNode: () => dom.classList.add('ProseMirror-selectednode'),
+    deselectNode: () => dom.classList.remove('ProseMirror-selectednode'),
+    stopEvent: (event) => input !== null && event.target === input,
+    ignoreMutation: () => true,
+    destroy: () => {
+      input = null;
+    },
+  };
+}
+
+export const mathInlineView = $view(mathInlineSchema.node, () => (node, view, getPos) =>
+  createMathView(node, view, getPos, false)
+);
+
+export const mathBlockView = $view(mathBlockSchema.node, () => (node, view, getPos) =>
+  createMathView(node, view, getPos, true)
+);
+
+export const insertMathInlineCommand = $command('InsertMathInline', (ctx) => () => (state, dispatch) => {
+  const type = mathInlineSchema.type(ctx);
+  const { from, to } = state.selection;
+  const value = state.doc.textBetween(from, to);
+  dispatch?.(state.tr.replaceSelectionWith(type.create({ value })).scrollIntoView());
+  return true;
+});
+
+export const insertMathBlockCommand = $command('InsertMathBlock', (ctx) => () => (state, dispatch) => {
+  const type = mathBlockSchema.type(ctx);
+  dispatch?.(state.tr.replaceSelectionWith(type.create()).scrollIntoView());
+  return true;
+});
+
+export const math: MilkdownPlugin[] = [
+  remarkMathPlugin,
+  remarkMathDelimiter,
+  mathInlineSchema,
+  mathBlockSchema,
+  mathInlineView,
+  mathBlockView,
+  insertMathInlineCommand,
+  insertMathBlockCommand,
+].flat();
@@ -0,0 +1,202 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
+import type { NodeView } from '@milkdown/prose/view';
+import { codeBlockSchema } from '@milkdown/preset-commonmark';
+import { $command } from '@milkdown/utils';
+
+/**
+ * Renders ```mermaid fenced blocks as diagrams with the bundled Mermaid build. The code stays
+ * editable: a toggle flips between the diagram and the fenced source, and syntax errors are
+ * shown under the block instead of a diagram. Mermaid is a separate chunk of the webview bundle,
+ * loaded when the first diagram renders, so documents without diagrams never parse it.
+ */
+
+type Mermaid = typeof import('mermaid').default;
+
+const RENDER_DEBOUNCE_MS = 300;
+const STARTER_DIAGRAM = 'flowchart TD\n  A[Start] --> B{Decision}\n  B -->|Yes| C[Do it]\n  B -->|No| D[Skip]';
+
+let nextDiagramId = 1;
+let themeKey = '';
+const liveViews = new Set<() => void>();
+let mermaidLoad: Promise<Mermaid> | null = null;
+let loadedMermaid: Mermaid | null = null;
+
+function loadMermaid(): Promise<Mermaid> {
+  mermaidLoad ??= import('mermaid').then((module) => {
+    loadedMermaid = module.default;
+    return loadedMermaid;
+  });
+  // A chunk that failed to load is retried by the next render.
+  mermaidLoad.catch(() => {
+    mermaidLoad = null;
+  });
+  return mermaidLoad;
+}
+
+function cssVar(name: string, fallback: string): string {
+  return getComputedStyle(document.body).getPropertyValue(name).trim() || fallback;
+}
+
+/**
+ * (Re)initializes Mermaid when the VS Code theme changes. Colors come from the same
+ * `--vscode-*` variables and fallbacks that styles.css uses.
+ */
+function ensureMermaidTheme(mermaid: Mermaid): boolean {
+  const isDark = !document.body.classList.contains('vscode-light');
+  const variables = {
+    darkMode: isDark,
+    background: cssVar('--vscode-editor-background', isDark ? '#1e1e1e' : '#ffffff'),
+    primaryColor: cssVar('--vscode-editorWidget-background', isDark ? '#252526' : '#f3f3f3'),
+    primaryTextColor: cssVar('--vscode-editor-foreground', isDark ? '#d4d4d4' : '#333333'),
+    primaryBorderColor: cssVar('--vscode-editorWidget-border', isDark ? '#454545' : '#c8c8c8'),
+    lineColor: cssVar('--vscode-descriptionForeground', isDark ? '#9d9d9d' : '#717171'),
+    fontFamily: cssVar('--vscode-font-family', 'sans-serif'),
+  };
+  const key = JSON.stringify(variables);
+  if (key === themeKey) return false;
+
+  themeKey = key;
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: 'strict',
+    theme: 'base',
+    themeVariables: variables,
+    suppressErrorRendering: true,
+  });
+  return true;
+}
+
+let themeObserver: MutationObserver | null = null;
+
+function watchTheme() {
+  if (themeObserver) return;
+  themeObserver = new MutationObserver(() => {
+    if (loadedMermaid && ensureMermaidTheme(loadedMermaid)) liveViews.forEach((rerender) => rerender());
+  });
+  themeObserver.observe(document.body, { attributes: true, attributeFilter: ['class'] });
+}
+
+export function isMermaid(node: ProseNode): boolean {
+  return node.attrs.language === 'mermaid';
+}
+
+/** Node view for a ```mermaid code block; other code blocks use the view in codeBlocks.ts. */
+export function createMermaidView(node: ProseNode): NodeView {
+  watchTheme();
+
+  const dom = document.createElement('div');
+  dom.className = 'mermaid-block';
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'mermaid-toolbar';
+  toolbar.contentEditable = 'false';
+  const label = document.createElement('span');
+  label.className = 'mermaid-label';
+  label.textContent = 'mermaid';
+  const toggle = document.createElement('button');
+  toggle.className = 'mermaid-toggle';
+  toolbar.append(label, toggle);
+
+  const pre = document.createElement('pre');
+  pre.dataset.language = 'mermaid';
+  const code = document.createElement('code');
+  pre.appendChild(code);
+
+  const diagram = document.createElement('div');
+  diagram.className = 'mermaid-diagram';
+  diagram.contentEditable = 'false';
+
+  const error = document.createElement('div');
+  error.className = 'mermaid-error';
+  error.contentEditable = 'false';
+
+  dom.append(toolbar, pre, diagram, error);
+
+  let current = node;
+  let showSource = false;
+  let renderedText: string | null = null;
+  let renderTimer: ReturnType<typeof setTimeout> | null = null;
+  let renderToken = 0;
+
+  const applyMode = () => {
+    pre.style.display = showSource ? '' : 'none';
+    diagram.style.display = showSource ? 'none' : '';
+    toggle.textContent = showSource ? 'Show diagram' : 'Edit source';
+  };
+
+  const render = async () => {
+    const text = current.textContent;
+    const token = ++renderToken;
+    renderedText = text;
+    if (!text.trim()) {
+      diagram.innerHTML = '';
+      error.textContent = '';
+      return;
+    }
+    try {
+      const mermaid = await loadMermaid();
+      if (token !== renderToken) return;
+      ensureMermaidTheme(mermaid);
+      const { svg } = await mermaid.render(`mermaid-diagram-${nextDiagramId++}`, text);
+      if (token !== renderToken) return;
+      diagram.innerHTML = svg;
+      error.textContent = '';
+      dom.classList.remove('has-error');
+    } catch (e) {
+      if (token !== renderToken) return;
+      error.textContent = e instanceof Error ? e.message : String(e);
+      dom.classList.add('has-error');
+    }
+  };
+
+  const scheduleRender = () => {
+    if (renderTimer) clearTimeout(renderTimer);
+    renderTimer = setTimeout(render, RENDER_DEBOUNCE_MS);
+  };
+
+  const rerender = () => {
+    renderedText = null;
+    render();
+  };
+  liveViews.add(rerender);
+
+  toggle.addEventListener('mousedown', (e) => e.preventDefault());
+  toggle.addEventListener('click', () => {
+    showSource = !showSource;
+    applyMode();
+  });
+  diagram.addEventListener('dblclick', () => {
+    showSource = true;
+    applyMode();
+  });
+
+  applyMode();
+  render();
+
+  return {
+    dom,
+    contentDOM: code,
+    update: (next) => {
+      if (next.type !== current.type || !isMermaid(next)) return false;
+      current = next;
+      if (next.textContent !== renderedText) scheduleRender();
+      return true;
+    },
+    stopEvent: (event) => toolbar.contains(event.target as Node) || diagram.contains(event.target as Node),
+    ignoreMutation: (mutation) => mutation.type !== 'selection' && !pre.contains(mutation.target),
+    destroy: () => {
+      if (renderTimer) clearTimeout(renderTimer);
+      liveViews.delete(rerender);
+    },
+  };
+}
+
+export const insertMermaidDiagramCommand = $command('InsertMermaidDiagram', (ctx) => () => (state, dispatch) => {
+  const type = codeBlockSchema.type(ctx);
+  const block = type.create({ language: 'mermaid' }, state.schema.text(STARTER_DIAGRAM));
+  dispatch?.(state.tr.replaceSelectionWith(block).scrollIntoView());
+  return true;
+});
+
+export const mermaidDiagrams: MilkdownPlugin[] = [insertMermaidDiagramCommand].flat();
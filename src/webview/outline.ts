@@ -0,0 +1,161 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node as ProseNode, Schema } from '@milkdown/prose/model';
+import { Plugin, TextSelection } from '@milkdown/prose/state';
+import type { EditorView } from '@milkdown/prose/view';
+import { $command, $prose } from '@milkdown/utils';
+import { headingAnchors } from './anchors';
+
+/**
+ * Reports the rendered document's headings to the extension host, which shows them in the
+ * Explorer outline, and tracks the heading the cursor is under. Also generates a table of
+ * contents between `<!-- toc -->` and `<!-- tocstop -->` markers, which running the command
+ * again regenerates in place.
+ */
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+}
+
+const OUTLINE_DEBOUNCE_MS = 150;
+const TOC_START = '<!-- toc -->';
+const TOC_END = '<!-- tocstop -->';
+
+let postMessage: (message: unknown) => void = () => {};
+
+export function setupOutline(post: (message: unknown) => void) {
+  postMessage = post;
+}
+
+export function outlineHeadings(doc: ProseNode): OutlineHeading[] {
+  return headingAnchors(doc).map(({ level, text }) => ({ level, text: text.trim() }));
+}
+
+/** Index of the last heading at or before `pos`, or -1 above the first heading. */
+export function headingIndexAt(doc: ProseNode, pos: number): number {
+  return headingAnchors(doc).filter((heading) => heading.pos <= pos).length - 1;
+}
+
+/** Puts the cursor in the `index`th heading and scrolls it into view. */
+export function revealHeading(view: EditorView, index: number) {
+  const heading = headingAnchors(view.state.doc)[index];
+  if (!heading) return;
+  view.dispatch(view.state.tr.setSelection(TextSelection.near(view.state.doc.resolve(heading.pos + 1))).scrollIntoView());
+  view.focus();
+}
+
+export const outlineSync = $prose(
+  () =>
+    new Plugin({
+      view: (view) => {
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        let lastOutline = '';
+        let lastActive: number | null = null;
+
+        const postOutline = () => {
+          timer = null;
+          const headings = outlineHeadings(view.state.doc);
+          const key = JSON.stringify(headings);
+          if (key !== lastOutline) {
+            lastOutline = key;
+            postMessage({ type: 'outline', headings });
+          }
+          postActive();
+        };
+        const postActive = () => {
+          const active = headingIndexAt(view.state.doc, view.state.selection.from);
+          if (active === lastActive) return;
+          lastActive = active;
+          postMessage({ type: 'outlineActive', index: active });
+        };
+
+        postOutline();
+        return {
+          update: (next, prevState) => {
+            if (next.state.doc !== prevState.doc) {
+              if (timer) clearTimeout(timer);
+              timer = setTimeout(postOutline, OUTLINE_DEBOUNCE_MS);
+            } else if (!next.state.selection.eq(prevState.selection)) {
+              postActive();
+            }
+          },
+          destroy: () => {
+            if (timer) clearTimeout(timer);
+          },
+        };
+      },
+    })
+);
+
+// ==========================================================================
+// Table of Contents
+// ==========================================================================
+
+function isMarker(node: ProseNode, marker: string): boolean {
+  return node.type.name === 'raw_source' && node.textContent.trim() === marker;
+}
+
+/** Nested bullet lists of `#anchor` links, one item per heading, indented by heading level. */
+function buildTocList(schema: Schema, doc: ProseNode): ProseNode | null {
+  const { bullet_list: list, list_item: item, paragraph } = schema.nodes;
+  const link = schema.marks.link;
+  const headings = headingAnchors(doc).filter((heading) => heading.text.trim());
+  if (!headings.length) return null;
+
+  const minLevel = Math.min(...headings.map((heading) => heading.level));
+  // Each stack frame is an open list at one depth, collecting its items.
+  const stack: { depth: number; items: ProseNode[][] }[] = [{ depth: 0, items: [] }];
+
+  const closeFrame = () => {
+    const frame = stack.pop()!;
+    const nested = list.create(null, frame.items.map((children) => item.create(null, children)));
+    const parent = stack[stack.length - 1];
+    const last = parent.items[parent.items.length - 1];
+    if (last) last.push(nested);
+    else parent.items.push([paragraph.create(), nested]);
+  };
+
+  headings.forEach((heading) => {
+    const depth = heading.level - minLevel;
+    while (stack[stack.length - 1].depth > depth) closeFrame();
+    while (stack[stack.length - 1].depth < depth) stack.push({ depth: stack[stack.length - 1].depth + 1, items: [] });
+    const text = schema.text(heading.text.trim(), [link.create({ href: `#${heading.slug}` })]);
+    stack[stack.length - 1].items.push([paragraph.create(null, text)]);
+  });
+  while (stack.length > 1) closeFrame();
+
+  return list.create(null, stack[0].items.map((children) => item.create(null, children)));
+}
+
+/** Inserts a table of contents at the cursor, or regenerates the existing one. */
+export const insertTocCommand = $command('InsertToc', () => () => (state, dispatch) => {
+  const { schema, doc } = state;
+  const rawSource = schema.nodes.raw_source;
+  const list = buildTocList(schema, doc);
+  if (!rawSource || !list) return false;
+
+  let start = -1;
+  let end = -1;
+  doc.forEach((node, offset) => {
+    if (start === -1 && isMarker(node, TOC_START)) start = offset;
+    else if (start !== -1 && end === -1 && isMarker(node, TOC_END)) end = offset + node.nodeSize;
+  });
+
+  const toc = [rawSource.create(null, schema.text(TOC_START)), list, rawSource.create(null, schema.text(TOC_END))];
+  const tr = state.tr;
+  const { $from } = state.selection;
+  if (start !== -1 && end !== -1) {
+    tr.replaceWith(start, end, toc);
+  } else if ($from.depth === 0) {
+    tr.insert($from.pos, toc);
+  } else if ($from.depth === 1 && $from.parent.isTextblock && !$from.parent.content.size) {
+    // An empty paragraph (e.g. left by the slash command) is replaced rather than kept above
+    tr.replaceWith($from.before(1), $from.after(1), toc);
+  } else {
+    tr.insert($from.after(1), toc);
+  }
+  dispatch?.(tr.scrollIntoView());
+  return true;
+});
+
+export const outline: MilkdownPlugin[] = [outlineSync, insertTocCommand].flat();
@@ -0,0 +1,459 @@
+import { Plugin, PluginKey } from '@milkdown/prose/state';
+import type { EditorView } from '@milkdown/prose/view';
+import { $prose } from '@milkdown/utils';
+
+/**
+ * Cleans up HTML pasted from web pages, Google Docs and Slack before ProseMirror parses it, so it
+ * lands as the markdown the commonmark/gfm schema can hold: formatting expressed as inline styles
+ * becomes real marks, flat or misplaced lists are nested, tables get a header row and one
+ * paragraph per cell, code blocks keep their language, and link targets lose tracking
+ * parameters. Code copied from a VS Code editor pastes as a fenced block of its language.
+ */
+
+const MONOSPACE = /monospace|courier|consolas|menlo|monaco|source code|roboto mono|fira (code|mono)|jetbrains mono|sf mono|ubuntu mono|inconsolata/i;
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|gclsrc|dclid|msclkid|yclid|mc_cid|mc_eid|igshid|_hsenc|_hsmi|mkt_tok|oly_anon_id|oly_enc_id|vero_id|ref_src)$/i;
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'figure', 'footer', 'form', 'h1', 'h2',
+  'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+]);
+const JUNK_SELECTOR = 'meta, style, script, link, title, colgroup, col, caption, o\\:p';
+const LIST_SELECTOR = 'ul, ol';
+const NESTED_LIST_SELECTOR = 'ul > ul, ul > ol, ol > ul, ol > ol';
+const HEADING_BOLD_SELECTOR = [1, 2, 3, 4, 5, 6].map((level) => `h${level} b, h${level} strong`).join(', ');
+
+// Attributes the schema's parse rules read; everything else (styles, classes, ids) is dropped.
+const KEPT_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title'],
+  ol: ['start'],
+  li: ['data-item-type', 'data-checked'],
+  pre: ['data-language'],
+  td: ['style'],
+  th: ['style'],
+};
+
+// VS Code language ids whose fence name differs.
+const VSCODE_LANGUAGES: Record<string, string> = {
+  typescriptreact: 'tsx',
+  javascriptreact: 'jsx',
+  shellscript: 'bash',
+  dockercompose: 'yaml',
+};
+
+function tagOf(node: Node): string {
+  return node.nodeName.toLowerCase();
+}
+
+function isElement(node: Node): node is HTMLElement {
+  return node.nodeType === 1;
+}
+
+function unwrap(el: Element) {
+  el.replaceWith(...Array.from(el.childNodes));
+}
+
+function rename(el: Element, tag: string): HTMLElement {
+  const renamed = el.ownerDocument.createElement(tag);
+  Array.from(el.attributes).forEach((attr) => renamed.setAttribute(attr.name, attr.value));
+  renamed.append(...Array.from(el.childNodes));
+  el.replaceWith(renamed);
+  return renamed;
+}
+
+function hasBlockChildren(el: Element): boolean {
+  return Array.from(el.children).some((child) => BLOCK_TAGS.has(tagOf(child)));
+}
+
+/** Text of preformatted content: `<br>`s and line-per-`<div>` markup become newlines. */
+function preformattedText(el: Element): string {
+  let text = '';
+  el.childNodes.forEach((child) => {
+    if (tagOf(child) === 'br') {
+      text += '\n';
+    } else if (isElement(child)) {
+      const inner = preformattedText(child);
+      text += BLOCK_TAGS.has(tagOf(child)) && text && !text.endsWith('\n') ? `\n${inner}` : inner;
+    } else if (child.nodeType === 3) {
+      text += child.textContent;
+    }
+  });
+  return text;
+}
+
+/** The code block language named by `pre`, its `<code>` or a wrapper like GitHub's `div.highlight`. */
+function languageOf(pre: HTMLElement): string {
+  const code = pre.querySelector('code');
+  for (const el of [pre, code]) {
+    const named = el?.getAttribute('data-language') ?? el?.getAttribute('data-lang') ?? el?.getAttribute('lang');
+    if (named) return named.toLowerCase();
+  }
+  for (const el of [pre, code, pre.parentElement]) {
+    const match = el?.className.match(/(?:^|\s)(?:language|lang|highlight-source)-([\w+#-]+)/);
+    if (match) return match[1].toLowerCase();
+  }
+  return '';
+}
+
+function codeBlock(doc: Document, text: string, language: string): HTMLElement {
+  const pre = doc.createElement('pre');
+  if (language) pre.setAttribute('data-language', language);
+  pre.textContent = text.replace(/\r\n?/g, '\n').replace(/\n+$/, '');
+  return pre;
+}
+
+/** Whether all of a paragraph's text is set in a monospace font (Google Docs "code"). */
+function isMonospaceParagraph(p: HTMLElement): boolean {
+  if (!p.textContent?.trim()) return false;
+  const walker = p.ownerDocument.createTreeWalker(p, 4);
+  for (let text = walker.nextNode(); text; text = walker.nextNode()) {
+    if (!text.textContent?.trim()) continue;
+    let el = text.parentElement;
+    while (el && el !== p && !MONOSPACE.test(el.style.fontFamily)) el = el.parentElement;
+    if (!el || el === p) return false;
+  }
+  return true;
+}
+
+function normalizeCodeBlocks(root: HTMLElement) {
+  root.querySelectorAll('pre').forEach((pre) => {
+    pre.replaceWith(codeBlock(root.ownerDocument, preformattedText(pre), languageOf(pre)));
+  });
+
+  const paragraphs = Array.from(root.querySelectorAll('p')).filter(isMonospaceParagraph);
+  const runs: HTMLElement[][] = [];
+  paragraphs.forEach((p) => {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1].nextElementSibling === p) run.push(p);
+    else runs.push([p]);
+  });
+  runs.forEach((run) => {
+    const pre = codeBlock(root.ownerDocument, run.map(preformattedText).join('\n'), '');
+    run[0].replaceWith(pre);
+    run.slice(1).forEach((p) => p.remove());
+  });
+}
+
+/** Turns bold, italic, strikethrough and monospace inline styles into the matching elements. */
+function normalizeInlineStyles(root: HTMLElement) {
+  // Google Docs wraps the whole clipboard in a `<b style="font-weight: normal">`.
+  root.querySelectorAll<HTMLElement>('b, strong').forEach((el) => {
+    if (/^(normal|[1-4]00)$/.test(el.style.fontWeight)) unwrap(el);
+  });
+
+  root.querySelectorAll<HTMLElement>('span, font').forEach((el) => {
+    const style = el.style;
+    const tags: string[] = [];
+    if (/^(bold(er)?|[6-9]00)$/.test(style.fontWeight)) tags.push('strong');
+    if (style.fontStyle === 'italic') tags.push('em');
+    if (`${style.textDecoration} ${style.textDecorationLine}`.includes('line-through')) tags.push('del');
+    if (MONOSPACE.test(style.fontFamily) && !el.closest('pre, code')) tags.push('code');
+    if (tags.length) {
+      const outer = el.ownerDocument.createElement(tags[0]);
+      const inner = tags.slice(1).reduce((parent, tag) => parent.appendChild(el.ownerDocument.createElement(tag)), outer);
+      inner.append(...Array.from(el.childNodes));
+      el.append(outer);
+    }
+    unwrap(el);
+  });
+
+  root.querySelectorAll('s, strike').forEach((el) => rename(el, 'del'));
+  root.querySelectorAll('u, ins, mark, code code').forEach(unwrap);
+  // Headings are bold already; `# **Title**` is noise.
+  root.querySelectorAll(HEADING_BOLD_SELECTOR).forEach(unwrap);
+}
+
+/**
+ * A link target without tracking parameters, or null for targets that shouldn't be links.
+ * Google's `/url?q=` redirects (links in Google Docs and search results) resolve to their target.
+ */
+export function cleanLinkTarget(href: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed || /^(javascript|vbscript|data):/i.test(trimmed)) return null;
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+  if (/^(www\.)?google\.[a-z.]+$/i.test(url.hostname) && url.pathname === '/url') {
+    const target = url.searchParams.get('q') ?? url.searchParams.get('url');
+    if (target) return cleanLinkTarget(target);
+  }
+  if (!Array.from(url.searchParams.keys()).some((key) => TRACKING_PARAMS.test(key))) return trimmed;
+
+  // Cut the tracking pieces out of the raw query, so the rest of the target keeps its spelling.
+  const queryStart = trimmed.indexOf('?');
+  const hashStart = trimmed.indexOf('#', queryStart);
+  const queryEnd = hashStart === -1 ? trimmed.length : hashStart;
+  const kept = trimmed
+    .slice(queryStart + 1, queryEnd)
+    .split('&')
+    .filter((param) => !TRACKING_PARAMS.test(paramName(param)));
+  return trimmed.slice(0, queryStart) + (kept.length ? `?${kept.join('&')}` : '') + trimmed.slice(queryEnd);
+}
+
+function paramName(param: string): string {
+  const name = param.split('=')[0].replace(/\+/g, ' ');
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function normalizeLinks(root: HTMLElement) {
+  root.querySelectorAll('a').forEach((a) => {
+    const href = cleanLinkTarget(a.getAttribute('href') ?? '');
+    if (href === null) unwrap(a);
+    else a.setAttribute('href', href);
+  });
+}
+
+function levelOf(li: Element): number {
+  return Number(li.getAttribute('aria-level')) || 1;
+}
+
+/**
+ * Nests lists the way markdown does. Google Docs puts sub-lists directly inside the parent list
+ * (next to its items) or marks items with `aria-level`; Slack writes each indentation level as
+ * a separate sibling list with `data-indent`.
+ */
+function normalizeLists(root: HTMLElement) {
+  const doc = root.ownerDocument;
+
+  root.querySelectorAll(NESTED_LIST_SELECTOR).forEach((list) => {
+    const previous = list.previousElementSibling;
+    if (previous && tagOf(previous) === 'li') {
+      previous.append(list);
+    } else {
+      const li = doc.createElement('li');
+      list.replaceWith(li);
+      li.append(list);
+    }
+  });
+
+  root.querySelectorAll(LIST_SELECTOR).forEach((list) => {
+    const items = Array.from(list.children).filter((child) => tagOf(child) === 'li');
+    if (!items.some((li) => li.hasAttribute('aria-level'))) return;
+    const stack = [{ level: levelOf(items[0]), list }];
+    let previous: Element | null = null;
+    items.forEach((li) => {
+      const level = levelOf(li);
+      while (stack.length > 1 && level < stack[stack.length - 1].level) stack.pop();
+      if (previous && level > stack[stack.length - 1].level) {
+        const nested = doc.createElement(tagOf(list));
+        previous.append(nested);
+        stack.push({ level, list: nested });
+      }
+      stack[stack.length - 1].list.append(li);
+      previous = li;
+    });
+  });
+
+  const parents = new Set(Array.from(root.querySelectorAll('[data-indent]'), (list) => list.parentElement));
+  parents.forEach((parent) => {
+    let open: Element[] = [];
+    Array.from(parent?.children ?? []).forEach((el) => {
+      const indent = Number(el.getAttribute('data-indent') ?? NaN);
+      if (!el.matches(LIST_SELECTOR) || Number.isNaN(indent)) {
+        open = [];
+        return;
+      }
+      const parentItem = indent > 0 ? open[indent - 1]?.lastElementChild : null;
+      if (parentItem) {
+        parentItem.append(el);
+        open = [...open.slice(0, indent), el];
+      } else if (open[0] && indent === 0 && tagOf(open[0]) === tagOf(el)) {
+        open[0].append(...Array.from(el.children));
+        el.remove();
+        open = [open[0]];
+      } else {
+        open = [el];
+      }
+    });
+  });
+}
+
+/** The checkbox an item starts with, if any (GitHub renders task items this way). */
+function leadingCheckbox(li: HTMLElement): HTMLInputElement | null {
+  const walker = li.ownerDocument.createTreeWalker(li, 1 | 4);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === 3 && node.textContent?.trim()) return null;
+    if (tagOf(node) === 'input') return (node as HTMLInputElement).type === 'checkbox' ? (node as HTMLInputElement) : null;
+    if (tagOf(node) === 'img' || tagOf(node) === 'li') return null;
+  }
+  return null;
+}
+
+/** Marks checklist items (GitHub checkboxes, Google Docs `role="checkbox"`) as task items. */
+function normalizeTaskItems(root: HTMLElement) {
+  root.querySelectorAll('li').forEach((li) => {
+    let checked: boolean | null = null;
+    const box = leadingCheckbox(li);
+    if (box) {
+      checked = box.hasAttribute('checked') || box.checked;
+      box.remove();
+    } else if (li.getAttribute('role') === 'checkbox') {
+      checked = li.getAttribute('aria-checked') === 'true';
+    }
+    if (checked === null) return;
+    li.setAttribute('data-item-type', 'task');
+    li.setAttribute('data-checked', String(checked));
+  });
+}
+
+/** Inline content of a table cell: its blocks become lines, since a cell holds one paragraph. */
+function flattenCell(cell: HTMLElement) {
+  const doc = cell.ownerDocument;
+  const lines: Node[][] = [];
+  const collect = (el: Element) => {
+    let line: Node[] = [];
+    Array.from(el.childNodes).forEach((child) => {
+      if (isElement(child) && BLOCK_TAGS.has(tagOf(child))) {
+        if (line.length) lines.push(line);
+        line = [];
+        collect(child);
+      } else if (tagOf(child) === 'br') {
+        lines.push(line);
+        line = [];
+      } else {
+        line.push(child);
+      }
+    });
+    if (line.length) lines.push(line);
+  };
+  if (!hasBlockChildren(cell)) return;
+  collect(cell);
+  const content = lines.filter((line) => line.some((node) => node.textContent?.trim() || tagOf(node) === 'img'));
+  cell.replaceChildren();
+  content.forEach((line, i) => {
+    if (i > 0) cell.append(doc.createElement('br'));
+    cell.append(...line);
+  });
+}
+
+/** Rectangular tables whose first row is the header, as GFM requires. */
+function normalizeTables(root: HTMLElement) {
+  root.querySelectorAll('table').forEach((table) => {
+    const rows = Array.from(table.querySelectorAll('tr')).filter((tr) => tr.closest('table') === table);
+    if (!rows.length) {
+      table.remove();
+      return;
+    }
+
+    rows.forEach((tr) => {
+      Array.from(tr.children).forEach((cell) => {
+        const span = Number(cell.getAttribute('colspan')) || 1;
+        for (let i = 1; i < span; i++) cell.after(root.ownerDocument.createElement(tagOf(cell)));
+      });
+    });
+    const width = Math.max(...rows.map((tr) => tr.children.length));
+
+    rows.forEach((tr, index) => {
+      const cellTag = index === 0 ? 'th' : 'td';
+      while (tr.children.length < width) tr.append(root.ownerDocument.createElement(cellTag));
+      Array.from(tr.children).forEach((el) => {
+        const cell = tagOf(el) === cellTag ? (el as HTMLElement) : rename(el, cellTag);
+        const align = cell.style.textAlign;
+        flattenCell(cell);
+        cell.removeAttribute('style');
+        if (['center', 'right'].includes(align)) cell.setAttribute('style', `text-align: ${align}`);
+      });
+    });
+  });
+}
+
+function removeEmptyBlocks(root: HTMLElement) {
+  root.querySelectorAll('div').forEach((div) => {
+    if (!hasBlockChildren(div)) rename(div, 'p');
+  });
+  root.querySelectorAll('p, h1, h2, h3, h4, h5, h6').forEach((block) => {
+    if (!block.textContent?.trim() && !block.querySelector('img')) block.remove();
+  });
+  // Separators between pasted paragraphs, not line breaks within one
+  Array.from(root.children).forEach((el) => {
+    if (tagOf(el) === 'br') el.remove();
+  });
+}
+
+function stripAttributes(root: HTMLElement) {
+  root.querySelectorAll('*').forEach((el) => {
+    const kept = KEPT_ATTRIBUTES[tagOf(el)] ?? [];
+    Array.from(el.attributes)
+      .filter((attr) => !kept.includes(attr.name))
+      .forEach((attr) => el.removeAttribute(attr.name));
+  });
+}
+
+function removeComments(root: HTMLElement) {
+  const walker = root.ownerDocument.createTreeWalker(root, 128);
+  const comments: Node[] = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) comments.push(node);
+  comments.forEach((comment) => comment.parentNode?.removeChild(comment));
+}
+
+/** Pasted HTML rewritten into markup the editor's schema parses cleanly. */
+export function cleanPastedHtml(html: string): string {
+  // Copied from a ProseMirror editor (including this one): already in schema shape.
+  if (html.includes('data-pm-slice')) return html;
+
+  const root = new DOMParser().parseFromString(html, 'text/html').body;
+  root.querySelectorAll(JUNK_SELECTOR).forEach((el) => el.remove());
+  removeComments(root);
+  normalizeCodeBlocks(root);
+  normalizeInlineStyles(root);
+  normalizeLinks(root);
+  normalizeLists(root);
+  normalizeTaskItems(root);
+  normalizeTables(root);
+  removeEmptyBlocks(root);
+  stripAttributes(root);
+  return root.innerHTML;
+}
+
+/** The fence language for a VS Code language id. */
+function fenceLanguage(mode: string): string {
+  return VSCODE_LANGUAGES[mode] ?? mode;
+}
+
+/**
+ * Code copied from a VS Code editor comes with its language id; more than one line of it pastes
+ * as a code block in that language. Markdown source and plain text paste as text, like any other
+ * plain text.
+ */
+function pasteEditorCode(view: EditorView, event: ClipboardEvent): boolean {
+  const data = event.clipboardData;
+  const editorData = data?.getData('vscode-editor-data');
+  const text = data?.getData('text/plain') ?? '';
+  if (!editorData || !text.includes('\n') || view.state.selection.$from.parent.type.spec.code) return false;
+
+  let mode = '';
+  try {
+    mode = JSON.parse(editorData).mode ?? '';
+  } catch {
+    return false;
+  }
+  if (mode === 'markdown' || mode === 'plaintext') return false;
+
+  const { schema } = view.state;
+  const content = text.replace(/\r\n?/g, '\n').replace(/\n+$/, '');
+  const node = schema.nodes.code_block.create({ language: fenceLanguage(mode) }, content ? schema.text(content) : null);
+  view.dispatch(view.state.tr.replaceSelectionWith(node).scrollIntoView());
+  return true;
+}
+
+/** Pastes `text` as plain text, without any of its formatting. */
+export function pastePlainText(view: EditorView, text: string) {
+  view.pasteText(text);
+}
+
+export const pasteHtml = $prose(
+  () =>
+    new Plugin({
+      key: new PluginKey('pasteHtml'),
+      props: {
+        handlePaste: (view, event) => pasteEditorCode(view, event),
+        transformPastedHTML: (html) => cleanPastedHtml(html),
+      },
+    })
+);
@@ -0,0 +1,173 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import { $nodeSchema, $remark } from '@milkdown/utils';
+
+/**
+ * Opaque "raw source" blocks for markdown the commonmark/gfm presets don't model: HTML blocks
+ * (including comments and multi-part `<details>` sections), link reference definitions and
+ * `:::` directives. The block's text is its exact markdown source; it renders as an editable
+ * monospace block and is written back verbatim.
+ */
+
+type RawKind = 'html' | 'definition' | 'directive';
+
+interface MdNode {
+  type: string;
+  value?: string;
+  children?: MdNode[];
+  position?: { start: { offset?: number }; end: { offset?: number } };
+  [key: string]: unknown;
+}
+
+const CONTAINER_TYPES = ['root', 'blockquote', 'listItem'];
+const VOID_TAGS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+const DIRECTIVE_OPEN = /^:{3,}[ \t]*[\w-]/;
+const DIRECTIVE_CLOSE = /^:{3,}[ \t]*$/;
+
+function sourceOf(node: MdNode, file: string): string | null {
+  const start = node.position?.start.offset;
+  const end = node.position?.end.offset;
+  return start === undefined || end === undefined ? null : file.slice(start, end);
+}
+
+function lastLine(text: string): string {
+  return text.slice(text.lastIndexOf('\n') + 1);
+}
+
+/** The tag an HTML block opens without closing, e.g. `<details>` split by blank lines. */
+function unclosedTag(html: string): string | null {
+  const match = html.match(/^<([A-Za-z][\w-]*)[^>]*?(\/?)>/);
+  if (!match || match[2] || VOID_TAGS.includes(match[1].toLowerCase())) return null;
+  return new RegExp(`</${match[1]}\\s*>`, 'i').test(html) ? null : match[1];
+}
+
+/**
+ * Index of the sibling that ends the multi-node construct starting at `index`, or -1 when the
+ * node stands alone (or the construct is never closed).
+ */
+function findRunEnd(children: MdNode[], index: number, file: string): number {
+  const node = children[index];
+
+  if (node.type === 'html') {
+    const tag = unclosedTag(node.value ?? '');
+    if (!tag) return -1;
+    const closing = new RegExp(`</${tag}\\s*>`, 'i');
+    return children.findIndex((sibling, i) => i > index && sibling.type === 'html' && closing.test(sibling.value ?? ''));
+  }
+
+  if (node.type === 'paragraph') {
+    const source = sourceOf(node, file);
+    if (!source || !DIRECTIVE_OPEN.test(source)) return -1;
+    if (source.includes('\n') && DIRECTIVE_CLOSE.test(lastLine(source))) return index;
+    return children.findIndex((sibling, i) => {
+      const text = i > index ? sourceOf(sibling, file) : null;
+      return text !== null && DIRECTIVE_CLOSE.test(lastLine(text));
+    });
+  }
+
+  if (node.type === 'definition') {
+    let end = index;
+    while (children[end + 1]?.type === 'definition') end++;
+    return end;
+  }
+
+  return -1;
+}
+
+function rawNode(kind: RawKind, value: string, from: MdNode, to: MdNode = from): MdNode {
+  return {
+    type: 'rawSource',
+    kind,
+    value,
+    position: from.position && to.position ? { start: from.position.start, end: to.position.end } : undefined,
+  };
+}
+
+function transformContainer(parent: MdNode, file: string) {
+  const children = parent.children ?? [];
+  const next: MdNode[] = [];
+  const isRoot = parent.type === 'root';
+
+  for (let i = 0; i < children.length; i++) {
+    const node = children[i];
+    // Spanning several siblings only works at the root, where the source needs no unindenting.
+    const end = isRoot ? findRunEnd(children, i, file) : -1;
+    const source = end !== -1 ? file.slice(node.position!.start.offset, children[end].position!.end.offset) : null;
+
+    if (source !== null) {
+      const kind: RawKind = node.type === 'paragraph' ? 'directive' : (node.type as RawKind);
+      next.push(rawNode(kind, source, node, children[end]));
+      // Definitions stay in the tree so remark-inline-links can still resolve references;
+      // that plugin removes them afterwards.
+      if (kind === 'definition') next.push(...children.slice(i, end + 1));
+      i = end;
+    } else if (node.type === 'html') {
+      next.push(rawNode('html', node.value ?? '', node));
+    } else if (node.type === 'definition') {
+      const definition = sourceOf(node, file);
+      if (definition !== null) next.push(rawNode('definition', definition, node));
+      next.push(node);
+    } else {
+      if (node.children && CONTAINER_TYPES.includes(node.type)) transformContainer(node, file);
+      next.push(node);
+    }
+  }
+
+  parent.children = next;
+}
+
+/**
+ * Must run before the commonmark preset's remark plugins, which wrap HTML blocks in paragraphs
+ * and drop link definitions.
+ */
+export const remarkRawSource = $remark('remarkRawSource', () => () => (tree, file) => {
+  transformContainer(tree as MdNode, String(file.value));
+});
+
+export const rawSourceSchema = $nodeSchema('raw_source', () => ({
+  content: 'text*',
+  group: 'block',
+  marks: '',
+  code: true,
+  defining: true,
+  isolating: true,
+  attrs: {
+    kind: { default: 'html' },
+  },
+  parseDOM: [
+    {
+      tag: 'pre[data-type="raw-source"]',
+      // Above code_block, whose rule matches every <pre>.
+      priority: 60,
+      preserveWhitespace: 'full',
+      getAttrs: (dom) => ({ kind: (dom as HTMLElement).dataset.kind ?? 'html' }),
+    },
+  ],
+  toDOM: (node) => [
+    'pre',
+    {
+      class: 'raw-source',
+      'data-type': 'raw-source',
+      'data-kind': node.attrs.kind,
+      spellcheck: 'false',
+      title: 'Raw markdown, kept exactly as written',
+    },
+    ['code', 0],
+  ],
+  parseMarkdown: {
+    match: ({ type }) => type === 'rawSource',
+    runner: (state, node, type) => {
+      state.openNode(type, { kind: node.kind as string });
+      if (node.value) state.addText(node.value as string);
+      state.closeNode();
+    },
+  },
+  toMarkdown: {
+    match: (node) => node.type.name === 'raw_source',
+    runner: (state, node) => {
+      // mdast `html` nodes are written out as-is, with no escaping.
+      state.addNode('html', undefined, node.textContent);
+    },
+  },
+}));
+
+export const rawSource: MilkdownPlugin[] = [...remarkRawSource, rawSourceSchema].flat();
@@ -0,0 +1,120 @@
+import { remarkCtx, schemaCtx, serializerCtx } from '@milkdown/core';
+import type { Ctx } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
+
+/**
+ * Keeps the original markdown of top-level blocks the user has not edited. Milkdown normalizes
+ * everything it serializes (`*` bullets become `-`, setext headings become ATX, tables are
+ * re-padded), so re-serializing the whole body on every keystroke rewrites untouched blocks.
+ * Instead, each top-level node of the loaded doc is paired with its source range, and blocks whose
+ * node is unchanged are emitted from that source verbatim.
+ */
+
+interface SourceBlock {
+  node: ProseNode;
+  start: number;
+  end: number;
+}
+
+export interface SourceMap {
+  source: string;
+  blocks: SourceBlock[];
+}
+
+/**
+ * The mdast of `source` after the same remark transforms the parser runs, so dropped nodes (link
+ * definitions) and wrapped ones (HTML blocks) line up one-to-one with the doc's nodes.
+ */
+export function parseSource(ctx: Ctx, source: string) {
+  const remark = ctx.get(remarkCtx);
+  return remark.runSync(remark.parse(source), source);
+}
+
+/**
+ * Pairs the top-level nodes of `doc` (parsed from `source`) with their source ranges. Returns null
+ * when the pairing is ambiguous, in which case callers fall back to plain serialization.
+ */
+export function buildSourceMap(ctx: Ctx, source: string, doc: ProseNode): SourceMap | null {
+  const root = parseSource(ctx, source);
+  const children = 'children' in root ? (root.children as typeof root[]) : [];
+  if (children.length !== doc.childCount) return null;
+
+  const blocks: SourceBlock[] = [];
+  for (let i = 0; i < children.length; i++) {
+    const start = children[i].position?.start.offset;
+    const end = children[i].position?.end.offset;
+    if (start === undefined || end === undefined) return null;
+    if (blocks.length > 0 && start < blocks[blocks.length - 1].end) return null;
+    blocks.push({ node: doc.child(i), start, end });
+  }
+  return { source, blocks };
+}
+
+function serializeBlock(ctx: Ctx, node: ProseNode): string {
+  const schema = ctx.get(schemaCtx);
+  const markdown = ctx.get(serializerCtx)(schema.topNodeType.create(null, [node]));
+  return markdown.replace(/\n+$/, '');
+}
+
+/**
+ * Serializes `doc`, reusing the original source of every top-level block that is unchanged since
+ * `map` was built. The text between two kept blocks (blank lines, comments, link definitions) is
+ * kept too; only edited, inserted or moved blocks go through Milkdown's serializer.
+ */
+export function serializeWithSourceMap(ctx: Ctx, doc: ProseNode, map: SourceMap): string {
+  const { source, blocks } = map;
+
+  // Match current nodes to original blocks in order. Each original block is used at most once.
+  const slots: (number | null)[] = [];
+  let next = 0;
+  doc.forEach((node) => {
+    let found = -1;
+    for (let i = next; i < blocks.length; i++) {
+      if (blocks[i].node === node || blocks[i].node.eq(node)) {
+        found = i;
+        break;
+      }
+    }
+    if (found === -1) {
+      slots.push(null);
+    } else {
+      slots.push(found);
+      next = found + 1;
+    }
+  });
+
+  // A run of edited nodes between two kept blocks that spans exactly the blocks in between
+  // replaced them in place, so it inherits their separators.
+  for (let i = 0; i < slots.length; ) {
+    if (slots[i] !== null) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < slots.length && slots[j] === null) j++;
+    const before = i > 0 ? slots[i - 1]! : -1;
+    const after = j < slots.length ? slots[j]! : blocks.length;
+    if (after - before - 1 === j - i) {
+      for (let k = i; k < j; k++) slots[k] = before + 1 + (k - i);
+    }
+    i = j;
+  }
+
+  let markdown = '';
+  doc.forEach((node, _offset, index) => {
+    const slot = slots[index];
+    if (index > 0) {
+      markdown += slot !== null && slot > 0 ? source.slice(blocks[slot - 1].end, blocks[slot].start) : '\n\n';
+    } else if (slot === 0) {
+      markdown += source.slice(0, blocks[0].start);
+    }
+
+    const block = slot !== null ? blocks[slot] : null;
+    const unchanged = block && (block.node === node || block.node.eq(node));
+    markdown += unchanged ? source.slice(block.start, block.end) : serializeBlock(ctx, node);
+  });
+
+  const lastSlot = slots[slots.length - 1];
+  markdown += lastSlot === blocks.length - 1 ? source.slice(blocks[lastSlot].end) : '\n';
+  return markdown;
+}
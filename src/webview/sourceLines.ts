@@ -0,0 +1,153 @@
+import type { Ctx } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
+import { Plugin, PluginKey } from '@milkdown/prose/state';
+import { Decoration, DecorationSet, type EditorView } from '@milkdown/prose/view';
+import { $prose } from '@milkdown/utils';
+import { parseSource } from './sourceFidelity';
+
+/**
+ * Maps between doc positions and 0-based lines of the markdown body, so toggling to the text
+ * editor and back keeps the cursor and viewport on the same block. The doc and the body's mdast
+ * are walked together for as long as their child counts agree (lists, quotes, tables); inside a
+ * textblock, hard breaks and code lines count as source lines. Side-by-side mode uses the same
+ * mapping to sync scrolling and to highlight the block the text editor's cursor is on.
+ */
+
+interface MdastNode {
+  children?: MdastNode[];
+  position?: { start: { line: number }; end: { line: number } };
+}
+
+/** Blocks whose content starts one line below their source (the opening fence). */
+const FENCED_BLOCKS = new Set(['code_block', 'math_block']);
+
+// Scrolling asks for lines many times per second; the body only changes on edits.
+let parsed: { body: string; tree: MdastNode } | null = null;
+
+function parseBody(ctx: Ctx, body: string): MdastNode {
+  if (parsed?.body !== body) parsed = { body, tree: parseSource(ctx, body) as MdastNode };
+  return parsed.tree;
+}
+
+function startLine(md: MdastNode): number {
+  return (md.position?.start.line ?? 1) - 1;
+}
+
+function endLine(md: MdastNode): number {
+  return (md.position?.end.line ?? 1) - 1;
+}
+
+function isAligned(node: ProseNode, md: MdastNode): boolean {
+  return !node.isTextblock && Boolean(md.children?.length) && md.children!.length === node.childCount;
+}
+
+/** Source lines before `offset` in a textblock: newlines in its text plus hard breaks. */
+function linesBefore(block: ProseNode, offset: number): number {
+  let lines = 0;
+  block.forEach((child, childOffset) => {
+    if (childOffset >= offset) return;
+    if (child.isText) lines += (child.text!.slice(0, offset - childOffset).match(/\n/g) ?? []).length;
+    else if (child.type.name === 'hardbreak') lines++;
+  });
+  return lines;
+}
+
+/** Offset in a textblock where its `lines`th source line starts. */
+function offsetOfLine(block: ProseNode, lines: number): number {
+  if (lines <= 0) return 0;
+  let seen = 0;
+  let found = -1;
+  block.forEach((child, childOffset) => {
+    if (found !== -1) return;
+    if (child.isText) {
+      const text = child.text!;
+      for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+        if (++seen === lines) {
+          found = childOffset + i + 1;
+          return;
+        }
+      }
+    } else if (child.type.name === 'hardbreak' && ++seen === lines) {
+      found = childOffset + child.nodeSize;
+    }
+  });
+  return found === -1 ? block.content.size : found;
+}
+
+/** The body line of the block at `pos`, or null if the doc and `body` don't line up. */
+export function sourceLineAt(ctx: Ctx, body: string, doc: ProseNode, pos: number): number | null {
+  let md = parseBody(ctx, body);
+  if (!isAligned(doc, md)) return null;
+
+  const $pos = doc.resolve(pos);
+  if ($pos.depth === 0) return startLine(md.children![Math.min($pos.index(0), doc.childCount - 1)]);
+
+  for (let depth = 0; depth < $pos.depth; depth++) {
+    if (!isAligned($pos.node(depth), md)) return startLine(md);
+    md = md.children![$pos.index(depth)];
+  }
+
+  const block = $pos.parent;
+  if (!block.isTextblock) return startLine(md);
+  const fence = FENCED_BLOCKS.has(block.type.name) ? 1 : 0;
+  return Math.min(startLine(md) + fence + linesBefore(block, $pos.parentOffset), endLine(md));
+}
+
+/** A doc position on body line `line`, or null if the doc and `body` don't line up. */
+export function positionAtSourceLine(ctx: Ctx, body: string, doc: ProseNode, line: number): number | null {
+  let md = parseBody(ctx, body);
+  if (!isAligned(doc, md)) return null;
+
+  let node = doc;
+  let contentStart = 0;
+  while (isAligned(node, md)) {
+    let index = 0;
+    md.children!.forEach((child, i) => {
+      if (startLine(child) <= line) index = i;
+    });
+    let childPos = contentStart;
+    for (let i = 0; i < index; i++) childPos += node.child(i).nodeSize;
+    node = node.child(index);
+    md = md.children![index];
+    contentStart = childPos + 1;
+  }
+
+  if (!node.isTextblock) return Math.min(contentStart, doc.content.size);
+  const fence = FENCED_BLOCKS.has(node.type.name) ? 1 : 0;
+  return contentStart + offsetOfLine(node, line - startLine(md) - fence);
+}
+
+// ==========================================================================
+// Source Cursor
+// ==========================================================================
+
+const sourceCursorKey = new PluginKey<DecorationSet>('sourceCursor');
+
+/** Highlights the textblock at `pos` (null clears it) as the text editor's cursor line. */
+export function setSourceCursor(view: EditorView, pos: number | null) {
+  view.dispatch(view.state.tr.setMeta(sourceCursorKey, pos).setMeta('addToHistory', false));
+}
+
+export const sourceCursorHighlight = $prose(
+  () =>
+    new Plugin<DecorationSet>({
+      key: sourceCursorKey,
+      state: {
+        init: () => DecorationSet.empty,
+        apply: (tr, set) => {
+          const pos = tr.getMeta(sourceCursorKey) as number | null | undefined;
+          if (pos === undefined) return set.map(tr.mapping, tr.doc);
+          if (pos === null) return DecorationSet.empty;
+          const $pos = tr.doc.resolve(pos);
+          if ($pos.depth === 0) return DecorationSet.empty;
+          const from = $pos.before($pos.depth);
+          return DecorationSet.create(tr.doc, [
+            Decoration.node(from, from + $pos.parent.nodeSize, { class: 'source-cursor-line' }),
+          ]);
+        },
+      },
+      props: {
+        decorations: (state) => sourceCursorKey.getState(state),
+      },
+    })
+);
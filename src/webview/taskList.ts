@@ -0,0 +1,218 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
+import { Plugin, PluginKey } from '@milkdown/prose/state';
+import { findWrapping } from '@milkdown/prose/transform';
+import { Decoration, DecorationSet, type EditorView, type NodeView } from '@milkdown/prose/view';
+import { bulletListSchema } from '@milkdown/preset-commonmark';
+import { extendListItemSchemaForTask } from '@milkdown/preset-gfm';
+import { $command, $prose, $view } from '@milkdown/utils';
+
+/**
+ * GFM task lists (`- [ ]` / `- [x]`): list items with a `checked` attr get a real checkbox that
+ * writes the new state back, lists show how many of their tasks are done, and the toolbar shows
+ * the total for the document.
+ */
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+function isTask(node: ProseNode): boolean {
+  return node.type.name === 'list_item' && node.attrs.checked != null;
+}
+
+/** Progress of the tasks directly inside `list` (not in nested lists). */
+function listProgress(list: ProseNode): TaskProgress {
+  let done = 0;
+  let total = 0;
+  list.forEach((item) => {
+    if (!isTask(item)) return;
+    total++;
+    if (item.attrs.checked) done++;
+  });
+  return { done, total };
+}
+
+export function documentTaskProgress(doc: ProseNode): TaskProgress {
+  let done = 0;
+  let total = 0;
+  doc.descendants((node) => {
+    if (isTask(node)) {
+      total++;
+      if (node.attrs.checked) done++;
+    }
+    return node.isBlock;
+  });
+  return { done, total };
+}
+
+export function formatTaskProgress({ done, total }: TaskProgress): string {
+  return `${done} of ${total} done`;
+}
+
+// ==========================================================================
+// Checkbox
+// ==========================================================================
+
+function setListItemAttrs(dom: HTMLElement, node: ProseNode) {
+  dom.dataset.label = node.attrs.label;
+  dom.dataset.listType = node.attrs.listType;
+  dom.dataset.spread = node.attrs.spread;
+  if (isTask(node)) {
+    dom.dataset.itemType = 'task';
+    dom.dataset.checked = String(node.attrs.checked);
+  }
+}
+
+function createListItemView(initial: ProseNode, view: EditorView, getPos: () => number | undefined): NodeView {
+  const dom = document.createElement('li');
+  let node = initial;
+  setListItemAttrs(dom, node);
+
+  if (!isTask(node)) {
+    return {
+      dom,
+      contentDOM: dom,
+      update: (next) => {
+        if (next.type !== node.type || isTask(next)) return false;
+        node = next;
+        setListItemAttrs(dom, node);
+        return true;
+      },
+    };
+  }
+
+  dom.className = 'task-list-item';
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.contentEditable = 'false';
+  checkbox.checked = Boolean(node.attrs.checked);
+  const content = document.createElement('div');
+  content.className = 'task-list-content';
+  dom.append(checkbox, content);
+
+  // Keep the cursor where it is; the click itself toggles the box.
+  checkbox.addEventListener('mousedown', (e) => e.preventDefault());
+  checkbox.addEventListener('change', () => {
+    const pos = getPos();
+    if (pos === undefined) return;
+    view.dispatch(view.state.tr.setNodeMarkup(pos, undefined, { ...node.attrs, checked: checkbox.checked }));
+  });
+
+  return {
+    dom,
+    contentDOM: content,
+    update: (next) => {
+      if (next.type !== node.type || !isTask(next)) return false;
+      node = next;
+      setListItemAttrs(dom, node);
+      checkbox.checked = Boolean(node.attrs.checked);
+      return true;
+    },
+    stopEvent: (event) => event.target === checkbox,
+    ignoreMutation: (mutation) => mutation.target === checkbox || (mutation.type === 'attributes' && mutation.target === dom),
+  };
+}
+
+export const taskListItemView = $view(
+  extendListItemSchemaForTask.node,
+  () => (node, view, getPos) => createListItemView(node, view, getPos)
+);
+
+// ==========================================================================
+// Commands
+// ==========================================================================
+
+/** The innermost list items holding a textblock between `from` and `to`. */
+function listItemsInRange(doc: ProseNode, from: number, to: number): { node: ProseNode; pos: number }[] {
+  const items = new Map<number, ProseNode>();
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isTextblock) return true;
+    const $pos = doc.resolve(pos);
+    if ($pos.depth > 0 && $pos.parent.type.name === 'list_item') items.set($pos.before(), $pos.parent);
+    return false;
+  });
+  return [...items].map(([pos, node]) => ({ node, pos }));
+}
+
+/**
+ * Turns the selected list items into tasks, or back into plain items when they all are tasks
+ * already. Paragraphs outside a list are wrapped in a bullet list first.
+ */
+export const toggleTaskListCommand = $command('ToggleTaskList', (ctx) => () => (state, dispatch) => {
+  const { from, to, $from, $to } = state.selection;
+  const tr = state.tr;
+  let items = listItemsInRange(tr.doc, from, to);
+
+  if (!items.length) {
+    const range = $from.blockRange($to);
+    const wrapping = range && findWrapping(range, bulletListSchema.type(ctx));
+    if (!range || !wrapping) return false;
+    tr.wrap(range, wrapping);
+    items = listItemsInRange(tr.doc, tr.mapping.map(from), tr.mapping.map(to));
+  }
+
+  const makeTasks = items.some(({ node }) => !isTask(node));
+  items.forEach(({ node, pos }) => {
+    tr.setNodeMarkup(pos, undefined, { ...node.attrs, checked: makeTasks ? (node.attrs.checked ?? false) : null });
+  });
+  dispatch?.(tr.scrollIntoView());
+  return true;
+});
+
+// ==========================================================================
+// Progress
+// ==========================================================================
+
+const progressKey = new PluginKey<DecorationSet>('taskProgress');
+
+function progressDecorations(doc: ProseNode): DecorationSet {
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name === 'bullet_list' || node.type.name === 'ordered_list') {
+      const progress = listProgress(node);
+      if (progress.total) {
+        decorations.push(
+          Decoration.node(pos, pos + node.nodeSize, { 'data-task-progress': formatTaskProgress(progress) })
+        );
+      }
+    }
+    return node.isBlock;
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+function renderDocumentProgress(doc: ProseNode) {
+  const el = document.getElementById('task-progress');
+  if (!el) return;
+  const progress = documentTaskProgress(doc);
+  el.style.display = progress.total ? '' : 'none';
+  el.textContent = `☑ ${formatTaskProgress(progress)}`;
+  el.classList.toggle('complete', progress.total > 0 && progress.done === progress.total);
+}
+
+/** Labels each list containing tasks with its "n of m done" summary and updates the toolbar total. */
+export const taskProgress = $prose(
+  () =>
+    new Plugin<DecorationSet>({
+      key: progressKey,
+      state: {
+        init: (_, state) => progressDecorations(state.doc),
+        apply: (tr, set) => (tr.docChanged ? progressDecorations(tr.doc) : set),
+      },
+      props: {
+        decorations: (state) => progressKey.getState(state),
+      },
+      view: (view) => {
+        renderDocumentProgress(view.state.doc);
+        return {
+          update: (next, prevState) => {
+            if (next.state.doc !== prevState.doc) renderDocumentProgress(next.state.doc);
+          },
+        };
+      },
+    })
+);
+
+export const taskLists: MilkdownPlugin[] = [taskListItemView, toggleTaskListCommand, taskProgress].flat();
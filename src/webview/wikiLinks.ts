@@ -0,0 +1,367 @@
+import type { MilkdownPlugin } from '@milkdown/ctx';
+import type { Node as ProseNode } from '@milkdown/prose/model';
+import { InputRule } from '@milkdown/prose/inputrules';
+import type { EditorView, NodeView } from '@milkdown/prose/view';
+import { $inputRule, $nodeSchema, $remark, $view } from '@milkdown/utils';
+import {
+  WIKI_LINK_REGEX,
+  WikiLink,
+  basename,
+  formatWikiLink,
+  resolveWikiLinkTarget,
+  shortestWikiLinkTarget,
+} from '../wikiLinks';
+import { scrollToAnchor } from './anchors';
+import { escapeHtml } from '../utils';
+
+/**
+ * `[[Note]]`, `[[Note#Heading]]` and `[[Note|alias]]` links. Targets are resolved against the
+ * workspace's markdown files, which the extension host sends as `wikiLinkTargets`; clicking a link
+ * asks the host to open it. Typing `[[` opens a picker of files and, after `#`, their headings.
+ */
+
+interface MdNode {
+  type: string;
+  value?: string;
+  children?: MdNode[];
+  [key: string]: unknown;
+}
+
+let targets: string[] = [];
+let documentPath = '';
+let postMessage: (message: unknown) => void = () => {};
+const headingCache = new Map<string, string[]>();
+const liveViews = new Set<() => void>();
+
+function isResolved(target: string): boolean {
+  return resolveWikiLinkTarget(target, targets, documentPath) !== undefined;
+}
+
+// ==========================================================================
+// Markdown
+// ==========================================================================
+
+function splitWikiLinks(value: string): MdNode[] {
+  const nodes: MdNode[] = [];
+  let last = 0;
+  for (const match of value.matchAll(WIKI_LINK_REGEX)) {
+    const [raw, target, heading = '', alias = ''] = match;
+    if (!target.trim() && !heading.trim()) continue;
+    const index = match.index ?? 0;
+    if (index > last) nodes.push({ type: 'text', value: value.slice(last, index) });
+    nodes.push({ type: 'wikiLink', target: target.trim(), heading: heading.trim(), alias, value: raw });
+    last = index + raw.length;
+  }
+  if (last < value.length) nodes.push({ type: 'text', value: value.slice(last) });
+  return nodes;
+}
+
+function transformWikiLinks(node: MdNode) {
+  if (!node.children || node.type === 'link' || node.type === 'linkReference') return;
+  node.children = node.children.flatMap((child) => {
+    if (child.type === 'text' && child.value?.includes('[[')) return splitWikiLinks(child.value);
+    transformWikiLinks(child);
+    return [child];
+  });
+}
+
+export const remarkWikiLink = $remark('remarkWikiLink', () => () => (tree) => {
+  transformWikiLinks(tree as MdNode);
+});
+
+export const wikiLinkSchema = $nodeSchema('wikilink', () => ({
+  group: 'inline',
+  inline: true,
+  atom: true,
+  attrs: {
+    target: { default: '' },
+    heading: { default: '' },
+    alias: { default: '' },
+  },
+  parseDOM: [
+    {
+      tag: 'span[data-type="wikilink"]',
+      getAttrs: (dom) => ({
+        target: (dom as HTMLElement).dataset.target ?? '',
+        heading: (dom as HTMLElement).dataset.heading ?? '',
+        alias: (dom as HTMLElement).dataset.alias ?? '',
+      }),
+    },
+  ],
+  toDOM: (node) => [
+    'span',
+    {
+      'data-type': 'wikilink',
+      'data-target': node.attrs.target,
+      'data-heading': node.attrs.heading,
+      'data-alias': node.attrs.alias,
+    },
+    linkLabel(node.attrs as WikiLink),
+  ],
+  parseMarkdown: {
+    match: ({ type }) => type === 'wikiLink',
+    runner: (state, node, type) => {
+      state.addNode(type, { target: node.target, heading: node.heading, alias: node.alias });
+    },
+  },
+  toMarkdown: {
+    match: (node) => node.type.name === 'wikilink',
+    runner: (state, node) => {
+      // Raw html keeps the brackets from being escaped.
+      state.addNode('html', undefined, formatWikiLink(node.attrs as WikiLink));
+    },
+  },
+}));
+
+/** Turns a typed `[[target]]` into a link once the closing brackets are entered. */
+export const wikiLinkInputRule = $inputRule(
+  (ctx) =>
+    new InputRule(/\[\[([^[\]|#\n]*)(?:#([^[\]|\n]*))?(?:\|([^[\]\n]*))?\]\]$/, (state, match, start, end) => {
+      const [, target = '', heading = '', alias = ''] = match;
+      if (!target.trim() && !heading.trim()) return null;
+      const node = wikiLinkSchema.type(ctx).create({ target: target.trim(), heading: heading.trim(), alias });
+      return state.tr.replaceWith(start, end, node);
+    })
+);
+
+// ==========================================================================
+// Rendering and Navigation
+// ==========================================================================
+
+function linkLabel({ target, heading, alias }: WikiLink): string {
+  if (alias) return alias;
+  if (!target) return heading;
+  return heading ? `${target} › ${heading}` : target;
+}
+
+function createWikiLinkView(initial: ProseNode, view: EditorView): NodeView {
+  const dom = document.createElement('span');
+  dom.dataset.type = 'wikilink';
+  let node = initial;
+
+  const render = () => {
+    const link = node.attrs as WikiLink;
+    const resolved = isResolved(link.target);
+    dom.className = resolved ? 'wikilink' : 'wikilink wikilink-unresolved';
+    dom.textContent = linkLabel(link);
+    dom.title = resolved ? formatWikiLink({ ...link, alias: '' }) : `${formatWikiLink({ ...link, alias: '' })} (not found)`;
+  };
+
+  dom.addEventListener('click', (e) => {
+    e.preventDefault();
+    const { target, heading } = node.attrs as WikiLink;
+    if (resolveWikiLinkTarget(target, targets, documentPath) === documentPath && heading) {
+      scrollToAnchor(view, heading);
+      return;
+    }
+    postMessage({ type: 'openWikiLink', target, heading });
+  });
+
+  render();
+  liveViews.add(render);
+
+  return {
+    dom,
+    update: (next) => {
+      if (next.type !== node.type) return false;
+      node = next;
+      render();
+      return true;
+    },
+    ignoreMutation: () => true,
+    destroy: () => liveViews.delete(render),
+  };
+}
+
+export const wikiLinkView = $view(wikiLinkSchema.node, () => (node, view) => createWikiLinkView(node, view));
+
+export const wikiLinks: MilkdownPlugin[] = [remarkWikiLink, wikiLinkSchema, wikiLinkInputRule, wikiLinkView].flat();
+
+export function setupWikiLinks(post: (message: unknown) => void) {
+  postMessage = post;
+}
+
+/** Applies the host's list of workspace notes and re-checks which links resolve. */
+export function setWikiLinkTargets(nextTargets: string[], nextDocumentPath: string) {
+  targets = nextTargets;
+  documentPath = nextDocumentPath;
+  liveViews.forEach((render) => render());
+}
+
+export function setWikiLinkHeadings(target: string, headings: string[]) {
+  headingCache.set(target.toLowerCase(), headings);
+  if (picker) renderPicker();
+}
+
+// ==========================================================================
+// `[[` Picker
+// ==========================================================================
+
+interface PickerItem {
+  label: string;
+  detail: string;
+  link: WikiLink;
+}
+
+interface PickerState {
+  view: EditorView;
+  from: number;
+  to: number;
+  items: PickerItem[];
+  selected: number;
+}
+
+const MAX_PICKER_ITEMS = 50;
+let picker: PickerState | null = null;
+
+function getPickerElement(): HTMLElement {
+  let menu = document.getElementById('wikilink-menu');
+  if (!menu) {
+    menu = document.createElement('div');
+    menu.id = 'wikilink-menu';
+    menu.className = 'slash-menu wikilink-menu';
+    menu.style.display = 'none';
+    menu.addEventListener('mousedown', (e) => e.preventDefault());
+    document.body.appendChild(menu);
+  }
+  return menu;
+}
+
+function fileItems(query: string): PickerItem[] {
+  const wanted = query.trim().toLowerCase();
+  const scored = targets
+    .map((path) => {
+      const name = basename(path).toLowerCase();
+      const score = !wanted
+        ? 2
+        : name.startsWith(wanted)
+          ? 0
+          : name.includes(wanted)
+            ? 1
+            : path.toLowerCase().includes(wanted)
+              ? 2
+              : -1;
+      return { path, score };
+    })
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score || a.path.localeCompare(b.path));
+
+  return scored.slice(0, MAX_PICKER_ITEMS).map(({ path }) => ({
+    label: basename(path),
+    detail: path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '',
+    link: { target: shortestWikiLinkTarget(path, targets), heading: '', alias: '' },
+  }));
+}
+
+function headingItems(target: string, query: string): PickerItem[] {
+  const key = target.toLowerCase();
+  const headings = headingCache.get(key);
+  if (!headings) {
+    headingCache.set(key, []);
+    postMessage({ type: 'requestWikiLinkHeadings', target });
+    return [];
+  }
+  const wanted = query.trim().toLowerCase();
+  return headings
+    .filter((heading) => heading.toLowerCase().includes(wanted))
+    .slice(0, MAX_PICKER_ITEMS)
+    .map((heading) => ({ label: heading, detail: target || 'this note', link: { target, heading, alias: '' } }));
+}
+
+function renderPicker() {
+  if (!picker) return;
+  const menu = getPickerElement();
+  const query = picker.view.state.doc.textBetween(picker.from + 2, picker.to);
+  const hash = query.indexOf('#');
+  picker.items = hash === -1 ? fileItems(query) : headingItems(query.slice(0, hash).trim(), query.slice(hash + 1));
+  picker.selected = Math.min(picker.selected, Math.max(picker.items.length - 1, 0));
+
+  if (picker.items.length === 0) {
+    menu.innerHTML = `<div class="slash-menu-empty">${hash === -1 ? 'No matching notes' : 'No matching headings'}</div>`;
+  } else {
+    menu.innerHTML = picker.items
+      .map(
+        (item, i) => `
+      <div class="slash-menu-item${i === picker!.selected ? ' selected' : ''}" data-index="${i}">
+        <div class="slash-menu-icon">${hash === -1 ? '📄' : '#'}</div>
+        <div class="slash-menu-content">
+          <div class="slash-menu-title">${escapeHtml(item.label)}</div>
+          <div class="slash-menu-description">${escapeHtml(item.detail)}</div>
+        </div>
+      </div>`
+      )
+      .join('');
+    menu.querySelectorAll('.slash-menu-item').forEach((el, index) => {
+      el.addEventListener('click', () => choosePickerItem(index));
+    });
+  }
+
+  const coords = picker.view.coordsAtPos(picker.to);
+  menu.style.display = 'block';
+  menu.style.left = `${coords.left}px`;
+  menu.style.top = `${coords.bottom + 4}px`;
+  const rect = menu.getBoundingClientRect();
+  if (rect.bottom > window.innerHeight) menu.style.top = `${coords.top - rect.height - 4}px`;
+  if (rect.right > window.innerWidth) menu.style.left = `${window.innerWidth - rect.width - 16}px`;
+}
+
+function choosePickerItem(index: number) {
+  if (!picker) return;
+  const item = picker.items[index];
+  const { view, from, to } = picker;
+  hideWikiLinkPicker();
+  if (!item) return;
+
+  const type = view.state.schema.nodes.wikilink;
+  const tr = view.state.tr.replaceWith(from, to, type.create(item.link));
+  view.dispatch(tr.scrollIntoView());
+  view.focus();
+}
+
+export function hideWikiLinkPicker() {
+  picker = null;
+  const menu = document.getElementById('wikilink-menu');
+  if (menu) menu.style.display = 'none';
+}
+
+/** Opens, updates or closes the picker for the text before the cursor. */
+export function checkForWikiLinkTrigger(view: EditorView) {
+  const { $from, empty } = view.state.selection;
+  const textBefore = empty ? $from.parent.textBetween(0, $from.parentOffset, undefined, '￼') : '';
+  const match = textBefore.match(/\[\[([^[\]|\n￼]*)$/);
+  if (!match || $from.parent.type.spec.code) {
+    if (picker) hideWikiLinkPicker();
+    return;
+  }
+
+  const from = $from.pos - match[0].length;
+  picker = { view, from, to: $from.pos, items: [], selected: picker?.from === from ? picker.selected : 0 };
+  renderPicker();
+}
+
+/** Keyboard navigation for the picker; returns true when the key was handled. */
+export function handleWikiLinkPickerKeydown(e: KeyboardEvent): boolean {
+  if (!picker) return false;
+  switch (e.key) {
+    case 'ArrowDown':
+    case 'ArrowUp': {
+      e.preventDefault();
+      const count = picker.items.length;
+      if (count > 0) picker.selected = (picker.selected + (e.key === 'ArrowDown' ? 1 : count - 1)) % count;
+      renderPicker();
+      return true;
+    }
+    case 'Enter':
+    case 'Tab':
+      if (picker.items.length === 0) return false;
+      e.preventDefault();
+      e.stopPropagation();
+      choosePickerItem(picker.selected);
+      return true;
+    case 'Escape':
+      e.preventDefault();
+      hideWikiLinkPicker();
+      return true;
+  }
+  return false;
+}
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { resolveWikiLinkTarget } from './wikiLinks';
+
+const MARKDOWN_GLOB = '**/*.md';
+const EXCLUDE_GLOB = '**/node_modules/**';
+
+export interface WikiLinkHeading {
+  text: string;
+  line: number;
+}
+
+/**
+ * Keeps the list of markdown files in the workspace, for resolving `[[wikilinks]]` and offering
+ * them in the rendered view's `[[` picker.
+ */
+export class WikiLinkIndex implements vscode.Disposable {
+  private readonly files = new Map<string, vscode.Uri>();
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly ready: Promise<void>;
+
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(MARKDOWN_GLOB, false, true, false);
+    this.disposables.push(
+      watcher,
+      this.changeEmitter,
+      watcher.onDidCreate((uri) => this.add(uri)),
+      watcher.onDidDelete((uri) => this.remove(uri))
+    );
+    this.ready = Promise.resolve(vscode.workspace.findFiles(MARKDOWN_GLOB, EXCLUDE_GLOB)).then((uris) => {
+      uris.forEach((uri) => this.files.set(toTarget(uri), uri));
+      this.changeEmitter.fire();
+    });
+  }
+
+  /** Workspace-relative paths of all markdown files, without the `.md` extension. */
+  public async getTargets(): Promise<string[]> {
+    await this.ready;
+    return [...this.files.keys()].sort();
+  }
+
+  public async resolve(target: string, from: vscode.Uri): Promise<vscode.Uri | undefined> {
+    await this.ready;
+    const path = resolveWikiLinkTarget(target, [...this.files.keys()], toTarget(from));
+    return path === undefined ? undefined : this.files.get(path) ?? (path === toTarget(from) ? from : undefined);
+  }
+
+  /** ATX headings of a markdown file, skipping fenced code blocks. */
+  public async getHeadings(uri: vscode.Uri): Promise<WikiLinkHeading[]> {
+    let text: string;
+    try {
+      const open = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString());
+      text = open ? open.getText() : new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    } catch {
+      return [];
+    }
+
+    const headings: WikiLinkHeading[] = [];
+    let fence: string | null = null;
+    text.split(/\r?\n/).forEach((line, index) => {
+      const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        if (fence === null) fence = fenceMatch[1][0];
+        else if (fenceMatch[1][0] === fence) fence = null;
+        return;
+      }
+      const heading = fence === null ? line.match(/^\s{0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/) : null;
+      if (heading && heading[1]) headings.push({ text: heading[1], line: index });
+    });
+    return headings;
+  }
+
+  private add(uri: vscode.Uri) {
+    if (uri.path.includes('/node_modules/')) return;
+    this.files.set(toTarget(uri), uri);
+    this.changeEmitter.fire();
+  }
+
+  private remove(uri: vscode.Uri) {
+    if (this.files.delete(toTarget(uri))) this.changeEmitter.fire();
+  }
+
+  public dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.files.clear();
+  }
+}
+
+/** The wikilink target naming `uri`: its workspace-relative path without `.md`. */
+export function toTarget(uri: vscode.Uri): string {
+  return vscode.workspace.asRelativePath(uri, false).replace(/\\/g, '/').replace(/\.md$/i, '');
+}
+
+/**
+ * Where "Create Note" writes the note for an unresolved `target`: next to the linking document.
+ * Undefined for absolute targets and for ones that would land outside the workspace folder (or
+ * outside the document's folder when it is not in a workspace).
+ */
+export function newNoteUri(target: string, documentUri: vscode.Uri): vscode.Uri | undefined {
+  const name = target.trim().replace(/\\/g, '/').replace(/\.md$/i, '');
+  if (!name || name.startsWith('/') || name.startsWith('~') || /^[a-zA-Z]:/.test(name)) return undefined;
+
+  const uri = vscode.Uri.joinPath(documentUri, '..', `${name}.md`);
+  const root = vscode.workspace.getWorkspaceFolder(documentUri)?.uri ?? vscode.Uri.joinPath(documentUri, '..');
+  const rootPath = root.path.endsWith('/') ? root.path : `${root.path}/`;
+  return uri.path.startsWith(rootPath) ? uri : undefined;
+}
@@ -0,0 +1,75 @@
+/**
+ * Wikilink parsing and resolution shared by the extension host (opening links) and the webview
+ * (marking unresolved links). Targets are workspace-relative paths without the `.md` extension,
+ * using forward slashes, e.g. `notes/Meeting Notes`.
+ */
+
+export interface WikiLink {
+  target: string;
+  heading: string;
+  alias: string;
+}
+
+/** `[[target#heading|alias]]`; target and heading may be empty, but not both. */
+export const WIKI_LINK_REGEX = /\[\[([^[\]|#\n]*)(?:#([^[\]|\n]*))?(?:\|([^[\]\n]*))?\]\]/g;
+
+export function formatWikiLink({ target, heading, alias }: WikiLink): string {
+  return `[[${target}${heading ? `#${heading}` : ''}${alias ? `|${alias}` : ''}]]`;
+}
+
+function normalizeTarget(target: string): string {
+  return target
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^\.?\//, '')
+    .replace(/\.md$/i, '')
+    .toLowerCase();
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+export function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Resolves a wikilink target the way Obsidian does: an exact path wins, otherwise any file whose
+ * name (or trailing path) matches, preferring the linking file's folder and then the shortest path.
+ * An empty target refers to the linking file itself.
+ */
+export function resolveWikiLinkTarget(
+  target: string,
+  candidates: readonly string[],
+  fromPath: string
+): string | undefined {
+  const wanted = normalizeTarget(target);
+  if (!wanted) return fromPath;
+
+  const exact = candidates.find((candidate) => candidate.toLowerCase() === wanted);
+  if (exact) return exact;
+
+  const matches = candidates.filter((candidate) => {
+    const lower = candidate.toLowerCase();
+    return lower.endsWith(`/${wanted}`);
+  });
+  if (matches.length <= 1) return matches[0];
+
+  const fromDir = dirname(fromPath).toLowerCase();
+  return (
+    matches.find((candidate) => dirname(candidate).toLowerCase() === fromDir) ??
+    [...matches].sort((a, b) => a.length - b.length)[0]
+  );
+}
+
+/**
+ * The shortest target text that still resolves to `path` from anywhere: the bare file name when
+ * it is unique in the workspace, the full path otherwise.
+ */
+export function shortestWikiLinkTarget(path: string, candidates: readonly string[]): string {
+  const name = basename(path).toLowerCase();
+  const sameName = candidates.filter((candidate) => basename(candidate).toLowerCase() === name);
+  return sameName.length === 1 ? basename(path) : path;
+}
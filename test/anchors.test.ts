@@ -0,0 +1,24 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { headingAnchors, headingSlug, scrollToAnchor } from '../src/webview/anchors';
+import { createEditor } from './createEditor';
+
+describe('heading anchors', () => {
+  it('slugs headings the way GitHub does', () => {
+    expect(headingSlug('Hello, World!')).toBe('hello-world');
+    expect(headingSlug('  API v2.0 — Setup ')).toBe('api-v20--setup');
+    expect(headingSlug('snake_case and Ünïcode')).toBe('snake_case-and-ünïcode');
+  });
+
+  it('numbers repeated headings and finds them by slug or text', async () => {
+    const { view } = await createEditor('# Notes\n\ntext\n\n## Setup\n\nmore\n\n## Setup\n\nlast\n');
+    expect(headingAnchors(view.state.doc).map((heading) => heading.slug)).toEqual(['notes', 'setup', 'setup-1']);
+
+    expect(scrollToAnchor(view, 'setup-1')).toBe(true);
+    expect(view.state.selection.$from.parent.textContent).toBe('Setup');
+    expect(view.state.selection.$from.before()).toBe(headingAnchors(view.state.doc)[2].pos);
+    expect(scrollToAnchor(view, 'Notes')).toBe(true);
+    expect(view.state.selection.$from.before()).toBe(0);
+    expect(scrollToAnchor(view, 'missing')).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { serializerCtx } from '@milkdown/core';
+import { createEditor } from './createEditor';
+
+const source = readFileSync(join(__dirname, 'fixtures', 'callouts.md'), 'utf8');
+
+describe('callouts', () => {
+  it('parses callout syntax into callout nodes', async () => {
+    const { view } = await createEditor(source);
+    const callouts: Record<string, unknown>[] = [];
+    view.state.doc.forEach((node) => {
+      if (node.type.name === 'callout') callouts.push({ ...node.attrs, text: node.textContent });
+    });
+    expect(callouts).toEqual([
+      { type: 'note', fold: '', title: '', compact: true, text: 'Body right under the header.' },
+      { type: 'warning', fold: '-', title: 'Folded *by* default', compact: true, text: 'Hidden until expanded.with a list' },
+      { type: 'tip', fold: '+', title: 'Expanded', compact: false, text: 'Separated by a blank quote line.' },
+      { type: 'info', fold: '', title: 'Title only', compact: false, text: '' },
+    ]);
+    expect(view.state.doc.lastChild?.type.name).toBe('blockquote');
+  });
+
+  it('serializes callouts back to the same syntax', async () => {
+    const { editor, view } = await createEditor(source);
+    const markdown = editor.ctx.get(serializerCtx)(view.state.doc);
+    expect(markdown).toContain('> [!note]\n> Body right under the header.\n');
+    expect(markdown).toContain('> [!warning]- Folded *by* default\n> Hidden until expanded.\n>\n> * with a list\n');
+    expect(markdown).toContain('> [!tip]+ Expanded\n>\n> Separated by a blank quote line.\n');
+    expect(markdown).toContain('> [!info] Title only\n');
+  });
+});
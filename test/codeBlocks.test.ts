@@ -0,0 +1,33 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { serializerCtx } from '@milkdown/core';
+import { highlightTokens } from '../src/webview/codeBlocks';
+import { createEditor } from './createEditor';
+
+describe('code blocks', () => {
+  it('highlights known languages and aliases, and leaves unknown ones plain', () => {
+    const tokens = highlightTokens('ts', 'const a = "x";');
+    expect(tokens).toContainEqual({ from: 0, to: 5, className: 'hljs-keyword' });
+    expect(tokens).toContainEqual({ from: 10, to: 13, className: 'hljs-string' });
+    expect(highlightTokens('no-such-language', 'const a = 1;')).toEqual([]);
+    expect(highlightTokens('', 'const a = 1;')).toEqual([]);
+  });
+
+  it('edits the info string from the language picker', async () => {
+    const { editor, view } = await createEditor('```\nprint("hi")\n```\n');
+    expect(view.dom.querySelector('.hljs-string')).toBeNull();
+
+    const picker = view.dom.querySelector('select.code-language') as HTMLSelectElement;
+    picker.value = 'python';
+    picker.dispatchEvent(new Event('change'));
+    expect(editor.ctx.get(serializerCtx)(view.state.doc)).toBe('```python\nprint("hi")\n```\n');
+    expect(view.dom.querySelector('.hljs-string')?.textContent).toBe('"hi"');
+  });
+
+  it('keeps unknown info strings selectable', async () => {
+    const { view } = await createEditor('```elixir\nIO.puts "hi"\n```\n');
+    const picker = view.dom.querySelector('select.code-language') as HTMLSelectElement;
+    expect(picker.value).toBe('elixir');
+    expect(view.dom.querySelector('pre code')?.textContent).toBe('IO.puts "hi"');
+  });
+});
@@ -0,0 +1,42 @@
+import { Editor, defaultValueCtx, editorViewCtx, rootCtx } from '@milkdown/core';
+import { history } from '@milkdown/plugin-history';
+import { commonmark } from '@milkdown/preset-commonmark';
+import { gfm } from '@milkdown/preset-gfm';
+import { callout } from '../src/webview/callout';
+import { codeBlocks } from '../src/webview/codeBlocks';
+import { findReplace } from '../src/webview/findReplace';
+import { footnotes } from '../src/webview/footnotes';
+import { localImages } from '../src/webview/images';
+import { math } from '../src/webview/math';
+import { outline } from '../src/webview/outline';
+import { pasteHtml } from '../src/webview/pasteHtml';
+import { rawSource } from '../src/webview/rawSource';
+import { taskLists } from '../src/webview/taskList';
+import { wikiLinks } from '../src/webview/wikiLinks';
+
+/**
+ * Builds a headless editor with the same markdown plugins as the webview (no theme or UI).
+ */
+export async function createEditor(markdown: string) {
+  const editor = await Editor.make()
+    .config((ctx) => {
+      ctx.set(rootCtx, document.createElement('div'));
+      ctx.set(defaultValueCtx, markdown);
+    })
+    .use(rawSource)
+    .use(math)
+    .use(commonmark)
+    .use(callout)
+    .use(wikiLinks)
+    .use(gfm)
+    .use(taskLists)
+    .use(footnotes)
+    .use(outline)
+    .use(findReplace)
+    .use(codeBlocks)
+    .use(localImages)
+    .use(pasteHtml)
+    .use(history)
+    .create();
+  return { editor, view: editor.ctx.get(editorViewCtx) };
+}
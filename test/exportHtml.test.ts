@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { hasMath, inlineFontFaces, standaloneHtml } from '../src/htmlExport';
+import { cleanRenderedHtml, embedLocalImages } from '../src/webview/exportHtml';
+import { setFindQuery } from '../src/webview/findReplace';
+import { setImageBase } from '../src/webview/images';
+import { createEditor } from './createEditor';
+
+const documentBase = 'https://file+.vscode-resource.vscode-cdn.net/work/docs';
+
+describe('rendered HTML export', () => {
+  it('strips editing chrome and decorations but keeps the content', async () => {
+    const markdown = [
+      '- [x] shipped',
+      '- [ ] pending',
+      '',
+      '```ts',
+      'const answer = 42;',
+      '```',
+      '',
+      '<details><summary>More</summary>hidden</details>',
+      '',
+      '[ref]: https://example.com',
+      '',
+      'Find the needle here.',
+      '',
+    ].join('\n');
+    const { view } = await createEditor(markdown);
+    setFindQuery(view, { text: 'needle', caseSensitive: false, wholeWord: false, regex: false });
+
+    const clean = cleanRenderedHtml(view.dom.parentElement!);
+    const boxes = clean.querySelectorAll('input[type="checkbox"]');
+    expect(Array.from(boxes, (box) => box.hasAttribute('checked'))).toEqual([true, false]);
+    expect(Array.from(boxes, (box) => box.hasAttribute('disabled'))).toEqual([true, true]);
+    expect(clean.querySelector('.code-block-toolbar')).toBeNull();
+    expect(clean.querySelector('pre code')?.textContent).toBe('const answer = 42;');
+    expect(clean.querySelector('.find-match')).toBeNull();
+    expect(clean.querySelector('details summary')?.textContent).toBe('More');
+    expect(clean.querySelector('.raw-source')).toBeNull();
+    expect(clean.querySelector('[contenteditable]')).toBeNull();
+    expect(clean.textContent).toContain('Find the needle here.');
+    // The live editor is left alone
+    expect(view.dom.querySelector('.find-match')).not.toBeNull();
+  });
+
+  it('falls back to the written path for local images that cannot be read', async () => {
+    setImageBase(documentBase, null);
+    const { view } = await createEditor('![arch](./img/arch.png) ![remote](https://example.com/a.png)\n');
+    const clean = cleanRenderedHtml(view.dom.parentElement!);
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = () => Promise.reject(new Error('offline'));
+    try {
+      await embedLocalImages(clean);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+    const sources = Array.from(clean.querySelectorAll('img'), (img) => img.getAttribute('src'));
+    expect(sources).toEqual(['./img/arch.png', 'https://example.com/a.png']);
+  });
+});
+
+describe('standalone HTML page', () => {
+  const css = [
+    '@font-face { font-family: KaTeX_Main; src: url("./fonts/Main.woff2") format("woff2"), url("./fonts/Main.woff") format("woff"); }',
+    '.katex { font: normal 1.21em KaTeX_Main; }',
+  ].join('\n');
+
+  it('embeds woff2 fonts only when they are wanted', async () => {
+    const read = async (url: string) => (url === './fonts/Main.woff2' ? 'AAAA' : undefined);
+    const withFonts = await inlineFontFaces(css, read, true);
+    expect(withFonts).toContain('src: url("data:font/woff2;base64,AAAA") format("woff2")');
+    expect(withFonts).not.toContain('Main.woff"');
+
+    const withoutFonts = await inlineFontFaces(css, read, false);
+    expect(withoutFonts).not.toContain('@font-face');
+    expect(withoutFonts).toContain('.katex');
+  });
+
+  it('wraps the rendered markup with its theme and styles', () => {
+    expect(hasMath('<span class="katex"><span class="katex-html">x</span></span>')).toBe(true);
+    expect(hasMath('<p>Costs $5</p>')).toBe(false);
+
+    const page = standaloneHtml(
+      { html: '<div id="editor-container"><p>Hi</p></div>', themeCss: ':root {\n  --vscode-editor-background: #fff;\n}', bodyClass: 'vscode-light' },
+      'p { margin: 0; }',
+      'Notes & <Ideas>'
+    );
+    expect(page).toContain('<title>Notes &amp; &lt;Ideas&gt;</title>');
+    expect(page).toContain('--vscode-editor-background: #fff;');
+    expect(page).toContain('<body class="vscode-light">');
+    expect(page).toContain('<div id="editor-container"><p>Hi</p></div>');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ExternalChangeTracker } from '../src/externalChangeTracker';
+
+/** `text` with the given hunks replaced by their original text, as "Revert" writes it. */
+function revert(tracker: ExternalChangeTracker, text: string, ids: number[]): string {
+  const hunks = tracker
+    .getHunks()
+    .filter((hunk) => ids.includes(hunk.id))
+    .sort((a, b) => b.start - a.start);
+  return hunks.reduce((result, hunk) => result.slice(0, hunk.start) + hunk.original + result.slice(hunk.end), text);
+}
+
+function revertAll(tracker: ExternalChangeTracker, text: string): string {
+  return revert(tracker, text, tracker.getHunks().map((hunk) => hunk.id));
+}
+
+describe('ExternalChangeTracker', () => {
+  it('tracks external edits as line hunks with their original text', () => {
+    const tracker = new ExternalChangeTracker('a\nb\nc\n');
+    tracker.recordChange('a\nB\nc\n', true);
+
+    expect(tracker.getSummaries()).toEqual([{ id: 1, line: 1, original: 'b\n', current: 'B\n' }]);
+    expect(revertAll(tracker, 'a\nB\nc\n')).toBe('a\nb\nc\n');
+  });
+
+  it('shifts earlier hunks by later external edits above them', () => {
+    const base = 'a\nb\nc\nd\n';
+    const tracker = new ExternalChangeTracker(base);
+    tracker.recordChange('a\nb\nc\nD\n', true);
+    tracker.recordChange('top\na\nb\nc\nD\n', true);
+
+    expect(tracker.getSummaries().map((hunk) => hunk.current)).toEqual(['top\n', 'D\n']);
+    expect(revertAll(tracker, 'top\na\nb\nc\nD\n')).toBe(base);
+  });
+
+  it('shifts later hunks by local edits inside an earlier hunk', () => {
+    const tracker = new ExternalChangeTracker('a\nb\nc\nd\n');
+    tracker.recordChange('a\nB\nc\nD\n', true);
+    tracker.recordChange('a\nBxyz\nc\nD\n', false);
+    const [first, second] = tracker.getHunks();
+
+    expect(tracker.getSummaries().map((hunk) => hunk.current)).toEqual(['Bxyz\n', 'D\n']);
+    expect(revert(tracker, 'a\nBxyz\nc\nD\n', [second.id])).toBe('a\nBxyz\nc\nd\n');
+    expect(revert(tracker, 'a\nBxyz\nc\nD\n', [first.id])).toBe('a\nb\nc\nD\n');
+  });
+
+  it('shifts hunks by local edits outside them and drops hunks edited back', () => {
+    const tracker = new ExternalChangeTracker('a\nb\nc\n');
+    tracker.recordChange('a\nb\nC\n', true);
+    tracker.recordChange('intro a\nb\nC\n', false);
+
+    expect(tracker.getSummaries()).toEqual([{ id: 1, line: 2, original: 'c\n', current: 'C\n' }]);
+    tracker.recordChange('intro a\nb\nc\n', false);
+    expect(tracker.getHunks()).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { serializerCtx } from '@milkdown/core';
+import { undo, undoDepth } from '@milkdown/prose/history';
+import { TextSelection } from '@milkdown/prose/state';
+import { describe, expect, it } from 'vitest';
+import { applyIncrementalUpdate } from '../src/webview/externalChanges';
+import { createEditor } from './createEditor';
+
+const markdown = 'First paragraph.\n\nSecond paragraph.\n\nThird paragraph.\n';
+
+async function updatedTo(next: string) {
+  const { editor, view } = await createEditor(markdown);
+  const before = view.state.doc;
+  editor.action((ctx) => applyIncrementalUpdate(ctx, next));
+  const serialized = editor.action((ctx) => ctx.get(serializerCtx)(view.state.doc));
+  return { view, before, serialized };
+}
+
+describe('applyIncrementalUpdate', () => {
+  it.each([
+    ['inserts at the start', `# Title\n\n${markdown}`],
+    ['inserts at the end', `${markdown}\nFourth paragraph.\n`],
+    ['deletes at the start', 'Second paragraph.\n\nThird paragraph.\n'],
+    ['deletes at the end', 'First paragraph.\n\nSecond paragraph.\n'],
+    ['replaces at the start', 'First *changed*.\n\nSecond paragraph.\n\nThird paragraph.\n'],
+    ['replaces at the end', 'First paragraph.\n\nSecond paragraph.\n\n## Third heading\n'],
+    ['replaces everything', '> Quoted\n'],
+  ])('%s', async (_, next) => {
+    const { serialized } = await updatedTo(next);
+    expect(serialized).toBe(next);
+  });
+
+  it('keeps the unchanged blocks around the change', async () => {
+    const { view, before } = await updatedTo('First paragraph.\n\nSecond, edited.\n\nThird paragraph.\n');
+    expect(view.state.doc.child(0)).toBe(before.child(0));
+    expect(view.state.doc.child(2)).toBe(before.child(2));
+  });
+
+  it('does nothing when no block changed', async () => {
+    const { view, before } = await updatedTo(markdown);
+    expect(view.state.doc).toBe(before);
+  });
+
+  it('maps the selection through the change', async () => {
+    const { editor, view } = await createEditor(markdown);
+    const third = view.state.doc.child(0).nodeSize + view.state.doc.child(1).nodeSize;
+    view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, third + 4)));
+
+    editor.action((ctx) => applyIncrementalUpdate(ctx, `# Title\n\nIntro.\n\n${markdown}`));
+
+    const { $from } = view.state.selection;
+    expect($from.parent.textContent).toBe('Third paragraph.');
+    expect($from.parentOffset).toBe(3);
+  });
+
+  it('adds no undo history, so undo only reverts local edits', async () => {
+    const { editor, view } = await createEditor(markdown);
+    view.dispatch(view.state.tr.insertText('!', view.state.doc.child(0).nodeSize - 1));
+    expect(undoDepth(view.state)).toBe(1);
+
+    editor.action((ctx) => applyIncrementalUpdate(ctx, 'First paragraph.!\n\nSecond paragraph.\n\nThird, from outside.\n'));
+    expect(undoDepth(view.state)).toBe(1);
+
+    undo(view.state, view.dispatch);
+    expect(undoDepth(view.state)).toBe(0);
+    expect(editor.action((ctx) => ctx.get(serializerCtx)(view.state.doc))).toBe(
+      'First paragraph.\n\nSecond paragraph.\n\nThird, from outside.\n'
+    );
+  });
+});
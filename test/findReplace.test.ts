@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { serializerCtx } from '@milkdown/core';
+import { undo } from '@milkdown/prose/history';
+import {
+  findMatches,
+  findNext,
+  getFindState,
+  replaceAll,
+  replaceCurrent,
+  setFindQuery,
+  type FindQuery,
+} from '../src/webview/findReplace';
+import { createEditor } from './createEditor';
+
+const query = (text: string, options: Partial<FindQuery> = {}): FindQuery => ({
+  text,
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+  ...options,
+});
+
+describe('findReplace', () => {
+  it('matches with case, whole-word and regex options', async () => {
+    const { view } = await createEditor('Cat catalog **cat**.\n\nScatter the CAT.\n');
+    const texts = (q: FindQuery) =>
+      findMatches(view.state.doc, q).matches.map(({ from, to }) => view.state.doc.textBetween(from, to));
+
+    expect(texts(query('cat'))).toEqual(['Cat', 'cat', 'cat', 'cat', 'CAT']);
+    expect(texts(query('cat', { caseSensitive: true }))).toEqual(['cat', 'cat', 'cat']);
+    expect(texts(query('cat', { wholeWord: true }))).toEqual(['Cat', 'cat', 'CAT']);
+    expect(texts(query('s?cat\\w*', { regex: true }))).toEqual(['Cat', 'catalog', 'cat', 'Scatter', 'CAT']);
+    expect(findMatches(view.state.doc, query('(', { regex: true })).error).toBeTruthy();
+  });
+
+  it('counts, navigates and wraps around matches', async () => {
+    const { view } = await createEditor('one two one\n\nthree one\n');
+    setFindQuery(view, query('one'));
+    expect(getFindState(view.state)?.matches).toHaveLength(3);
+    expect(getFindState(view.state)?.current).toBe(0);
+
+    findNext(view);
+    expect(getFindState(view.state)?.current).toBe(0);
+    expect(view.state.doc.textBetween(view.state.selection.from, view.state.selection.to)).toBe('one');
+    findNext(view);
+    findNext(view);
+    expect(getFindState(view.state)?.current).toBe(2);
+    findNext(view);
+    expect(getFindState(view.state)?.current).toBe(0);
+    findNext(view, -1);
+    expect(getFindState(view.state)?.current).toBe(2);
+  });
+
+  it('replaces one match at a time and expands regex groups', async () => {
+    const { editor, view } = await createEditor('2024-01-05 and 2023-12-31\n');
+    const serialize = () => editor.ctx.get(serializerCtx)(view.state.doc);
+    setFindQuery(view, query('(\\d{4})-(\\d\\d)-(\\d\\d)', { regex: true }));
+
+    replaceCurrent(view, '$3/$2/$1');
+    expect(serialize()).toBe('05/01/2024 and 2023-12-31\n');
+    expect(getFindState(view.state)?.matches).toHaveLength(1);
+    expect(getFindState(view.state)?.current).toBe(0);
+  });
+
+  it('replaces all matches as a single undoable step', async () => {
+    const { editor, view } = await createEditor('foo bar foo\n\n* foo item\n');
+    const serialize = () => editor.ctx.get(serializerCtx)(view.state.doc);
+    const before = serialize();
+    setFindQuery(view, query('foo'));
+
+    expect(replaceAll(view, 'baz')).toBe(3);
+    expect(serialize()).toBe(before.replace(/foo/g, 'baz'));
+    expect(getFindState(view.state)?.matches).toHaveLength(0);
+
+    undo(view.state, view.dispatch);
+    expect(serialize()).toBe(before);
+  });
+});
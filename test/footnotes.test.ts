@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { serializerCtx } from '@milkdown/core';
+import { TextSelection } from '@milkdown/prose/state';
+import { callCommand } from '@milkdown/utils';
+import { insertFootnoteCommand, nextFootnoteLabel, renumberFootnotesCommand } from '../src/webview/footnotes';
+import { createEditor } from './createEditor';
+
+const source = readFileSync(join(__dirname, 'fixtures', 'footnotes.md'), 'utf8');
+
+describe('footnotes', () => {
+  it('renders references as markers and definitions with their label', async () => {
+    const { view } = await createEditor(source);
+    const refs = [...view.dom.querySelectorAll('sup.footnote-ref')].map((el) => el.textContent);
+    expect(refs).toEqual(['note', '1', 'note']);
+    const markers = [...view.dom.querySelectorAll('.footnote-definition .footnote-marker')].map((el) => el.textContent);
+    expect(markers).toEqual(['note', '1']);
+    expect(nextFootnoteLabel(view.state.doc)).toBe('2');
+  });
+
+  it('inserts a reference and an empty definition with the next free label', async () => {
+    const { editor, view } = await createEditor('Some text[^1].\n\n[^1]: First.\n');
+    view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, 5)));
+    editor.action(callCommand(insertFootnoteCommand.key));
+    view.dispatch(view.state.tr.insertText('Second.'));
+    expect(editor.ctx.get(serializerCtx)(view.state.doc)).toBe(
+      'Some[^2] text[^1].\n\n[^1]: First.\n\n[^2]: Second.\n'
+    );
+  });
+
+  it('renumbers in order of first reference and gathers definitions at the end', async () => {
+    const { editor, view } = await createEditor(source);
+    editor.action(callCommand(renumberFootnotesCommand.key));
+    const markdown = editor.ctx.get(serializerCtx)(view.state.doc);
+    expect(markdown).toContain('Text with a note[^1] and a numbered one[^2].\n\nMore text');
+    expect(markdown).toContain('again[^1].\n\n[^1]: Defined in the middle,');
+    expect(markdown).toMatch(/\[\^2\]: A \*\*formatted\*\* footnote\.\n\n {4}With a second paragraph\.\n$/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { parse } from 'yaml';
+import {
+  addFrontmatterKey,
+  addFrontmatterSequenceItem,
+  deleteFrontmatterKey,
+  removeFrontmatterSequenceItem,
+  setFrontmatterScalar,
+} from '../src/webview/frontmatterEditor';
+
+const yamlText = [
+  '# Skill metadata',
+  'name: "pdf-tools"  # shown in the picker',
+  "description: 'Fill, merge & split PDFs'",
+  'version: 3',
+  'draft: false',
+  'tags: [pdf, "forms"]',
+  'aliases:',
+  '  - PDF',
+  "  - 'Acrobat'",
+  'meta:',
+  '  owner: docs # team',
+  '  review: 2024-05-01',
+].join('\n');
+
+describe('frontmatter edits', () => {
+  it('replaces only the edited scalar, keeping its quoting', () => {
+    expect(setFrontmatterScalar(yamlText, ['name'], 'pdf-kit')).toBe(
+      yamlText.replace('name: "pdf-tools"', 'name: "pdf-kit"')
+    );
+    expect(setFrontmatterScalar(yamlText, ['description'], "It's fine")).toBe(
+      yamlText.replace("'Fill, merge & split PDFs'", "'It''s fine'")
+    );
+    expect(setFrontmatterScalar(yamlText, ['version'], '4')).toBe(yamlText.replace('version: 3', 'version: 4'));
+    expect(setFrontmatterScalar(yamlText, ['draft'], 'True')).toBe(yamlText.replace('draft: false', 'draft: true'));
+    expect(setFrontmatterScalar(yamlText, ['meta', 'owner'], 'true')).toBe(
+      yamlText.replace('owner: docs # team', 'owner: "true" # team')
+    );
+    expect(setFrontmatterScalar('title:\nnext: 1', ['title'], 'Hello')).toBe('title: Hello\nnext: 1');
+  });
+
+  it('adds and removes items in flow and block sequences', () => {
+    expect(addFrontmatterSequenceItem(yamlText, ['tags'], 'acroforms')).toBe(
+      yamlText.replace('tags: [pdf, "forms"]', 'tags: [pdf, "forms", "acroforms"]')
+    );
+    expect(addFrontmatterSequenceItem(yamlText, ['aliases'], 'Reader')).toBe(
+      yamlText.replace("  - 'Acrobat'", "  - 'Acrobat'\n  - 'Reader'")
+    );
+    expect(addFrontmatterSequenceItem('tags:\nname: x', ['tags'], 'one')).toBe('tags: [one]\nname: x');
+    expect(addFrontmatterSequenceItem('tags: []', ['tags'], 'one')).toBe('tags: [one]');
+
+    expect(removeFrontmatterSequenceItem(yamlText, ['tags'], 0)).toBe(
+      yamlText.replace('tags: [pdf, "forms"]', 'tags: ["forms"]')
+    );
+    expect(removeFrontmatterSequenceItem(yamlText, ['aliases'], 0)).toBe(yamlText.replace('  - PDF\n', ''));
+    expect(removeFrontmatterSequenceItem('aliases:\n  - PDF\nname: x', ['aliases'], 0)).toBe('aliases: []\nname: x');
+  });
+
+  it('adds keys after the last one and deletes keys with their lines', () => {
+    expect(addFrontmatterKey(yamlText, 'license', 'MIT')).toBe(`${yamlText}\nlicense: MIT`);
+    expect(addFrontmatterKey(yamlText, 'version', '9')).toBe(yamlText);
+    expect(addFrontmatterKey('', 'title', 'Notes')).toBe('title: Notes');
+
+    expect(deleteFrontmatterKey(yamlText, ['version'])).toBe(yamlText.replace('version: 3\n', ''));
+    expect(deleteFrontmatterKey(yamlText, ['aliases'])).toBe(yamlText.replace("aliases:\n  - PDF\n  - 'Acrobat'\n", ''));
+    expect(deleteFrontmatterKey(yamlText, ['meta', 'review'])).toBe(yamlText.replace('\n  review: 2024-05-01', ''));
+    expect(deleteFrontmatterKey('only: 1', ['only'])).toBe('');
+  });
+
+  it('leaves an empty map when the last nested key is deleted', () => {
+    const nested = 'nested:\n  only: 1\nnext: 2';
+    expect(deleteFrontmatterKey(nested, ['nested', 'only'])).toBe('nested: {}\nnext: 2');
+    expect(parse(deleteFrontmatterKey(nested, ['nested', 'only']))).toEqual({ nested: {}, next: 2 });
+
+    expect(deleteFrontmatterKey('meta: {a: 1, b: "two"}', ['meta', 'a'])).toBe('meta: {b: "two"}');
+    expect(deleteFrontmatterKey('meta: {a: 1}', ['meta', 'a'])).toBe('meta: {}');
+  });
+});
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { configuration, diagnostics, files, resetVscode, textDocument, Uri, workspaceFolders } from './vscode';
+
+vi.mock('vscode', () => import('./vscode'));
+
+const { FrontmatterValidator } = await import('../src/frontmatterValidator');
+
+async function issuesOf(path: string, text: string) {
+  const document = textDocument(path, text);
+  const validator = new FrontmatterValidator();
+  await validator.validate(document as never);
+  const issues = validator.getIssues(document.uri as never);
+  validator.dispose();
+  return issues;
+}
+
+describe('FrontmatterValidator', () => {
+  beforeEach(() => {
+    resetVscode();
+    workspaceFolders.push({ uri: Uri.file('/work'), name: 'work', index: 0 });
+  });
+
+  it('validates each file against the first schema whose pattern matches it', async () => {
+    files.set('/work/schemas/note.json', JSON.stringify({ properties: { tags: { type: 'array' } } }));
+    configuration.markdownLiveRender = {
+      frontmatterSchemas: {
+        '**/SKILL.md': { required: ['name', 'description'] },
+        'notes/**/*.md': 'schemas/note.json',
+      },
+    };
+
+    expect(await issuesOf('/work/skills/pdf/SKILL.md', '---\nname: pdf\n---\n')).toEqual([
+      { message: "Missing required property 'description'", line: 0, source: 'schema' },
+    ]);
+    expect(await issuesOf('/work/notes/2024/today.md', '---\ntitle: Today\ntags: daily\n---\n')).toEqual([
+      { message: "'tags' must be array", line: 2, source: 'schema' },
+    ]);
+    // Relative patterns start at the workspace folder.
+    expect(await issuesOf('/work/archive/notes/old.md', '---\ntags: daily\n---\n')).toEqual([]);
+    expect(await issuesOf('/work/README.md', '# No frontmatter\n')).toEqual([]);
+    expect(await issuesOf('/work/SKILL.md', '# Still needs its keys\n')).toHaveLength(2);
+  });
+
+  it('reports schema errors on the line of the offending value', async () => {
+    configuration.markdownLiveRender = {
+      frontmatterSchemas: {
+        '**/*.md': {
+          properties: {
+            meta: { properties: { owner: { type: 'string' } } },
+            tags: { items: { type: 'string' } },
+            'a/b': { type: 'number' },
+          },
+        },
+      },
+    };
+    const text = [
+      '---',
+      '# heading comment',
+      'title: Notes',
+      '',
+      'meta:',
+      '  owner: 42',
+      'tags:',
+      '  - ok',
+      '  - [nested]',
+      '"a/b": nope',
+      '---',
+      'Body',
+    ].join('\r\n');
+
+    const issues = await issuesOf('/work/notes.md', text);
+    expect(issues.map(({ message, line }) => ({ message, line }))).toEqual([
+      { message: "'meta.owner' must be string", line: 5 },
+      { message: "'tags.1' must be string", line: 8 },
+      { message: "'a/b' must be number", line: 9 },
+    ]);
+    expect(diagnostics.get(Uri.file('/work/notes.md').toString())?.map((d) => d.range.start.line)).toEqual([5, 8, 9]);
+  });
+
+  it('reports YAML syntax errors by document line', async () => {
+    configuration.markdownLiveRender = { frontmatterSchemas: { '**/*.md': { required: ['title'] } } };
+    const issues = await issuesOf('/work/broken.md', '---\ntitle: ok\nbad: : x\nnext: 1\n---\nBody\n');
+
+    // The schema is not checked until the YAML parses.
+    expect(issues).toEqual([
+      { message: 'Invalid YAML: Nested mappings are not allowed in compact mappings at line 2, column 6:', line: 2, source: 'yaml' },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+// @vitest-environment jsdom
+import { File } from 'buffer';
+import { describe, expect, it } from 'vitest';
+import { serializerCtx } from '@milkdown/core';
+import { Slice } from '@milkdown/prose/model';
+import { TextSelection } from '@milkdown/prose/state';
+import {
+  imageSaved,
+  refreshImage,
+  resolveImageSrc,
+  setImageBase,
+  setupImageUpload,
+} from '../src/webview/images';
+import { createEditor } from './createEditor';
+
+const documentBase = 'https://file+.vscode-resource.vscode-cdn.net/work/docs';
+const workspaceBase = 'https://file+.vscode-resource.vscode-cdn.net/work';
+
+describe('local images', () => {
+  it('resolves relative and root paths against the document and workspace', () => {
+    setImageBase(documentBase, workspaceBase);
+    expect(resolveImageSrc('./img/arch.png')).toBe(`${documentBase}/img/arch.png`);
+    expect(resolveImageSrc('../shared/my logo.svg')).toBe(`${workspaceBase}/shared/my%20logo.svg`);
+    expect(resolveImageSrc('/assets/a.png')).toBe(`${workspaceBase}/assets/a.png`);
+    expect(resolveImageSrc('https://example.com/a.png')).toBe('https://example.com/a.png');
+    expect(resolveImageSrc('data:image/png;base64,AAAA')).toBe('data:image/png;base64,AAAA');
+  });
+
+  it('renders the resolved URL but serializes the path as written', async () => {
+    setImageBase(documentBase, workspaceBase);
+    const markdown = '![diagram](./img/arch.png "Architecture")\n';
+    const { editor, view } = await createEditor(markdown);
+
+    const img = view.dom.querySelector('img') as HTMLImageElement;
+    expect(img.getAttribute('src')).toBe(`${documentBase}/img/arch.png`);
+    expect(editor.ctx.get(serializerCtx)(view.state.doc)).toBe(markdown);
+
+    refreshImage(`${documentBase}/img/arch.png`);
+    expect(img.getAttribute('src')).toBe(`${documentBase}/img/arch.png?v=1`);
+    expect(editor.ctx.get(serializerCtx)(view.state.doc)).toBe(markdown);
+  });
+});
+
+describe('pasted images', () => {
+  it('saves through the host and inserts a relative link at the cursor', async () => {
+    const sent: { type: string; requestId: number; name: string; mimeType: string }[] = [];
+    setupImageUpload((message) => sent.push(message as (typeof sent)[number]));
+    const { editor, view } = await createEditor('Before after\n');
+    view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, 8)));
+
+    // jsdom's File has no arrayBuffer(); Node's does
+    const file = new File([new Uint8Array([137, 80, 78, 71])], 'image.png', { type: 'image/png' });
+    const clipboardData = { files: [file] } as unknown as DataTransfer;
+    view.someProp('handlePaste', (handle) => handle(view, { clipboardData } as ClipboardEvent, Slice.empty));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(sent).toMatchObject([{ type: 'saveImage', name: '', mimeType: 'image/png' }]);
+    expect(view.dom.querySelector('.image-upload-placeholder')).not.toBeNull();
+
+    view.dispatch(view.state.tr.insertText('Start. ', 1));
+    imageSaved(sent[0].requestId, 'assets/image-20260101-120000.png');
+    expect(view.dom.querySelector('.image-upload-placeholder')).toBeNull();
+    expect(editor.ctx.get(serializerCtx)(view.state.doc)).toBe(
+      'Start. Before ![](assets/image-20260101-120000.png)after\n'
+    );
+  });
+});
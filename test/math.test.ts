@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { serializerCtx } from '@milkdown/core';
+import { createEditor } from './createEditor';
+
+const source = readFileSync(join(__dirname, 'fixtures', 'math.md'), 'utf8');
+
+describe('math', () => {
+  it('parses inline and block math into math nodes', async () => {
+    const { view } = await createEditor(source);
+    const nodes: { type: string; value: string }[] = [];
+    view.state.doc.descendants((node) => {
+      if (node.type.name.startsWith('math_')) nodes.push({ type: node.type.name, value: node.attrs.value });
+    });
+    expect(nodes).toEqual([
+      { type: 'math_inline', value: 'E = mc^2' },
+      { type: 'math_inline', value: '\\alpha + \\beta' },
+      { type: 'math_block', value: '\\int_0^1 x^2 \\, dx = \\frac{1}{3}' },
+      { type: 'math_inline', value: 'a_i' },
+    ]);
+  });
+
+  it('writes the dollar delimiters back unchanged', async () => {
+    const { editor, view } = await createEditor(source);
+    const markdown = editor.ctx.get(serializerCtx)(view.state.doc);
+    expect(markdown).toContain('Inline $E = mc^2$ and double-dollar $$\\alpha + \\beta$$ inside a sentence.');
+    expect(markdown).toContain('$$\n\\int_0^1 x^2 \\, dx = \\frac{1}{3}\n$$');
+    expect(markdown).toContain('$a_i$');
+  });
+
+  it('leaves dollar amounts in prose as text', async () => {
+    const prose = 'It costs $5 and $10 today. Price: $20, tax $3.\n\nSpaced $ x $ and $y$2 stay text, $z$ does not.\n';
+    const { view } = await createEditor(prose);
+    const values: string[] = [];
+    view.state.doc.descendants((node) => {
+      if (node.type.name === 'math_inline') values.push(node.attrs.value);
+    });
+    expect(values).toEqual(['z']);
+    expect(view.state.doc.firstChild?.textContent).toBe('It costs $5 and $10 today. Price: $20, tax $3.');
+  });
+
+  it('writes dollar amounts in an edited paragraph back unescaped', async () => {
+    const { editor, view } = await createEditor('It costs $5 and $10 today.\n\nPrice: $20, tax $3.\n');
+    view.dispatch(view.state.tr.insertText(' Really.', view.state.doc.firstChild!.nodeSize - 1));
+    expect(editor.ctx.get(serializerCtx)(view.state.doc)).toBe('It costs $5 and $10 today. Really.\n\nPrice: $20, tax $3.\n');
+  });
+});
@@ -0,0 +1,101 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createEditor } from './createEditor';
+
+const mermaid = vi.hoisted(() => ({
+  loaded: false,
+  initialize: vi.fn(),
+  render: vi.fn(async (id: string, text: string) => ({ svg: `<svg id="${id}"><text>${text}</text></svg>` })),
+}));
+
+vi.mock('mermaid', () => {
+  mermaid.loaded = true;
+  return { default: mermaid };
+});
+
+/** Lets the lazy Mermaid import and the pending render settle. */
+async function settle() {
+  for (let i = 0; i < 5; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+async function createDiagram(source: string) {
+  const result = await createEditor(`\`\`\`mermaid\n${source}\n\`\`\`\n`);
+  await settle();
+  const block = result.view.dom.querySelector('.mermaid-block') as HTMLElement;
+  return { ...result, block };
+}
+
+describe('mermaid diagrams', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    mermaid.render.mockClear();
+  });
+
+  it('loads Mermaid only once a document has a diagram', async () => {
+    await createEditor('```js\nconst a = 1;\n```\n');
+    await settle();
+    expect(mermaid.loaded).toBe(false);
+
+    await createDiagram('graph TD\n  A --> B');
+    expect(mermaid.loaded).toBe(true);
+    expect(mermaid.initialize).toHaveBeenCalledWith(expect.objectContaining({ startOnLoad: false, securityLevel: 'strict' }));
+  });
+
+  it('shows the diagram and toggles to the editable source', async () => {
+    const { block } = await createDiagram('graph TD\n  A --> B');
+    const pre = block.querySelector('pre') as HTMLElement;
+    const diagram = block.querySelector('.mermaid-diagram') as HTMLElement;
+    const toggle = block.querySelector('.mermaid-toggle') as HTMLButtonElement;
+
+    expect(diagram.querySelector('svg')?.textContent).toBe('graph TD\n  A --> B');
+    expect(pre.style.display).toBe('none');
+    expect(toggle.textContent).toBe('Edit source');
+
+    toggle.click();
+    expect(pre.style.display).toBe('');
+    expect(diagram.style.display).toBe('none');
+    expect(toggle.textContent).toBe('Show diagram');
+
+    toggle.click();
+    expect(pre.style.display).toBe('none');
+  });
+
+  it('re-renders after source edits settle and hands non-mermaid blocks to the code view', async () => {
+    const { view, block } = await createDiagram('graph TD\n  A --> B');
+    expect(mermaid.render).toHaveBeenCalledTimes(1);
+
+    vi.useFakeTimers();
+    const end = view.state.doc.firstChild!.nodeSize - 1;
+    view.dispatch(view.state.tr.insertText('\n  B --> C', end));
+    view.dispatch(view.state.tr.insertText(';', end + 10));
+    expect(mermaid.render).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(300);
+    vi.useRealTimers();
+    await settle();
+
+    expect(mermaid.render).toHaveBeenCalledTimes(2);
+    expect(block.querySelector('svg')?.textContent).toBe('graph TD\n  A --> B\n  B --> C;');
+
+    view.dispatch(view.state.tr.setNodeMarkup(0, undefined, { ...view.state.doc.firstChild!.attrs, language: 'text' }));
+    expect(view.dom.querySelector('.mermaid-block')).toBeNull();
+    expect(view.dom.querySelector('pre code')?.textContent).toBe('graph TD\n  A --> B\n  B --> C;');
+  });
+
+  it('shows syntax errors under the block and clears them once the diagram renders', async () => {
+    mermaid.render.mockRejectedValueOnce(new Error('Parse error on line 2'));
+    const { view, block } = await createDiagram('graph TD\n  A -->');
+    expect(block.classList.contains('has-error')).toBe(true);
+    expect(block.querySelector('.mermaid-error')?.textContent).toBe('Parse error on line 2');
+    expect(block.querySelector('svg')).toBeNull();
+
+    vi.useFakeTimers();
+    view.dispatch(view.state.tr.insertText(' B', view.state.doc.firstChild!.nodeSize - 1));
+    await vi.advanceTimersByTimeAsync(300);
+    vi.useRealTimers();
+    await settle();
+
+    expect(block.classList.contains('has-error')).toBe(false);
+    expect(block.querySelector('.mermaid-error')?.textContent).toBe('');
+    expect(block.querySelector('svg')?.textContent).toBe('graph TD\n  A --> B');
+  });
+});
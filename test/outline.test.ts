@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { serializerCtx } from '@milkdown/core';
+import { TextSelection } from '@milkdown/prose/state';
+import { callCommand } from '@milkdown/utils';
+import { headingIndexAt, insertTocCommand, outlineHeadings } from '../src/webview/outline';
+import { createEditor } from './createEditor';
+
+const source = '# Guide\n\nIntro.\n\n## Install\n\n### From source\n\n## Usage\n\n> [!note] Aside\n> ## In a callout\n';
+
+describe('outline', () => {
+  it('lists rendered headings and finds the one above a position', async () => {
+    const { view } = await createEditor(source);
+    expect(outlineHeadings(view.state.doc)).toEqual([
+      { level: 1, text: 'Guide' },
+      { level: 2, text: 'Install' },
+      { level: 3, text: 'From source' },
+      { level: 2, text: 'Usage' },
+      { level: 2, text: 'In a callout' },
+    ]);
+    expect(headingIndexAt(view.state.doc, 0)).toBe(0);
+    expect(headingIndexAt(view.state.doc, view.state.doc.child(0).nodeSize + 2)).toBe(0);
+    expect(headingIndexAt(view.state.doc, view.state.doc.content.size)).toBe(4);
+  });
+
+  it('inserts a table of contents and regenerates it in place', async () => {
+    const { editor, view } = await createEditor('# Guide\n\nIntro.\n\n## Install\n\n### From source\n');
+    const serialize = () => editor.ctx.get(serializerCtx)(view.state.doc);
+    const intro = view.state.doc.child(0).nodeSize + 2;
+    view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, intro)));
+    editor.action(callCommand(insertTocCommand.key));
+    expect(serialize()).toBe(
+      '# Guide\n\nIntro.\n\n<!-- toc -->\n\n* [Guide](#guide)\n\n  * [Install](#install)\n\n    * [From source](#from-source)\n\n<!-- tocstop -->\n\n## Install\n\n### From source\n'
+    );
+
+    view.dispatch(view.state.tr.insertText(' steps', view.state.doc.content.size - 1));
+    editor.action(callCommand(insertTocCommand.key));
+    expect(serialize()).toContain('    * [From source steps](#from-source-steps)\n\n<!-- tocstop -->\n\n## Install');
+    expect(serialize().match(/<!-- toc -->/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { serializerCtx } from '@milkdown/core';
+import { TextSelection } from '@milkdown/prose/state';
+import { cleanLinkTarget } from '../src/webview/pasteHtml';
+import { createEditor } from './createEditor';
+
+function clipboardEvent(data: Record<string, string>): ClipboardEvent {
+  return { clipboardData: { getData: (type: string) => data[type] ?? '', files: [] } } as unknown as ClipboardEvent;
+}
+
+/** Markdown after pasting `html` into an empty paragraph below "Intro". */
+async function pasteInto(html: string): Promise<string> {
+  const { editor, view } = await createEditor('Intro\n');
+  const end = view.state.doc.content.size;
+  view.dispatch(view.state.tr.insert(end, view.state.schema.nodes.paragraph.create()));
+  view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, end + 1)));
+  view.pasteHTML(html, clipboardEvent({ 'text/html': html }));
+  return editor.ctx.get(serializerCtx)(view.state.doc);
+}
+
+describe('pasted HTML', () => {
+  it('turns Google Docs styling into marks and nests its lists', async () => {
+    const html =
+      '<meta charset="utf-8"><b style="font-weight:normal;" id="docs-internal-guid-1234">' +
+      '<h2 dir="ltr"><span style="font-size:16pt;font-weight:700;">Plan</span></h2>' +
+      '<p dir="ltr"><span style="font-weight:700;">Bold</span><span style="font-weight:400;"> and </span>' +
+      '<span style="font-style:italic;">italic</span><span> with </span>' +
+      '<span style="font-family:&quot;Courier New&quot;,monospace;">code()</span></p>' +
+      '<br>' +
+      '<ul style="margin-top:0;"><li dir="ltr" aria-level="1"><p dir="ltr" role="presentation"><span>One</span></p></li>' +
+      '<ul><li dir="ltr" aria-level="2"><p dir="ltr" role="presentation"><span>Nested</span></p></li></ul>' +
+      '<li dir="ltr" aria-level="1"><p dir="ltr" role="presentation"><span>Two</span></p></li></ul>' +
+      '<p dir="ltr"><a href="https://www.google.com/url?q=https://example.com/page?utm_source%3Ddocs%26id%3D7&amp;sa=D"><span>Link</span></a></p>' +
+      '</b>';
+    const markdown = await pasteInto(html);
+
+    expect(markdown).toContain('## Plan\n');
+    expect(markdown).toContain('**Bold** and *italic* with `code()`');
+    expect(markdown).toMatch(/\* One\n {2}\* Nested\n\* Two/);
+    expect(markdown).toContain('[Link](https://example.com/page?id=7)');
+    expect(markdown).not.toContain('docs-internal-guid');
+  });
+
+  it('keeps tables, task lists and code block languages from web pages', async () => {
+    const html =
+      '<table style="border:1px solid"><colgroup><col width="100"></colgroup><tbody>' +
+      '<tr><td><p><span>Name</span></p></td><td style="text-align:right"><p>Count</p></td></tr>' +
+      '<tr><td><p>apples</p><p>green</p></td><td style="text-align:right">3</td></tr>' +
+      '</tbody></table>' +
+      '<ul class="contains-task-list"><li class="task-list-item"><input type="checkbox" class="task-list-item-checkbox" disabled checked> Ship it</li>' +
+      '<li class="task-list-item"><input type="checkbox" class="task-list-item-checkbox" disabled> Announce</li></ul>' +
+      '<div class="highlight highlight-source-js"><pre><span class="pl-k">const</span> a = 1;\n<span class="pl-k">let</span> b;</pre></div>' +
+      '<pre><code class="language-python">print("hi")\n</code></pre>';
+    const markdown = await pasteInto(html);
+
+    expect(markdown).toMatch(/\| Name +\| +Count \|\n\| :-+ \| -+: \|\n\| apples green \| +3 \|/);
+    expect(markdown).toContain('* [x] Ship it');
+    expect(markdown).toContain('* [ ] Announce');
+    expect(markdown).toContain('```js\nconst a = 1;\nlet b;\n```');
+    expect(markdown).toContain('```python\nprint("hi")\n```');
+  });
+
+  it('nests Slack lists written as indented sibling lists', async () => {
+    const html =
+      '<ul data-stringify-type="unordered-list" data-indent="0"><li>Top</li></ul>' +
+      '<ul data-stringify-type="unordered-list" data-indent="1"><li>Child</li></ul>' +
+      '<ul data-stringify-type="unordered-list" data-indent="0"><li>Next</li></ul>' +
+      '<pre class="c-mrkdwn__pre" data-stringify-type="pre">git push<br>git tag v1</pre>';
+    const markdown = await pasteInto(html);
+
+    expect(markdown).toMatch(/\* Top\n {2}\* Child\n\* Next/);
+    expect(markdown).toContain('```\ngit push\ngit tag v1\n```');
+  });
+
+  it('pastes multi-line code from VS Code as a code block in its language', async () => {
+    const { editor, view } = await createEditor('Intro\n');
+    view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, 6)));
+    const text = 'function hi() {\n  return 1;\n}\n';
+    view.pasteText(text, clipboardEvent({ 'text/plain': text, 'vscode-editor-data': '{"mode":"typescriptreact"}' }));
+
+    expect(editor.ctx.get(serializerCtx)(view.state.doc)).toBe('Intro\n\n```tsx\nfunction hi() {\n  return 1;\n}\n```\n');
+  });
+
+  it('pastes plain text and markdown from VS Code as text', async () => {
+    for (const mode of ['plaintext', 'markdown']) {
+      const { editor, view } = await createEditor('Intro\n');
+      view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, 6)));
+      const text = 'first line\nsecond line';
+      view.pasteText(text, clipboardEvent({ 'text/plain': text, 'vscode-editor-data': `{"mode":"${mode}"}` }));
+
+      expect(view.state.doc.firstChild?.type.name).toBe('paragraph');
+      expect(editor.ctx.get(serializerCtx)(view.state.doc)).not.toContain('```');
+    }
+  });
+});
+
+describe('cleanLinkTarget', () => {
+  it('strips tracking parameters and unsafe targets', () => {
+    expect(cleanLinkTarget('https://example.com/a?utm_source=x&utm_medium=y&page=2&fbclid=abc#top')).toBe(
+      'https://example.com/a?page=2#top'
+    );
+    expect(cleanLinkTarget('https://example.com/?gclid=1')).toBe('https://example.com/');
+    expect(cleanLinkTarget('#section')).toBe('#section');
+    expect(cleanLinkTarget('javascript:alert(1)')).toBeNull();
+  });
+
+  it('leaves the rest of the target as written', () => {
+    expect(cleanLinkTarget('https://example.com/search?q=a%20b&tag&utm_source=x')).toBe('https://example.com/search?q=a%20b&tag');
+    expect(cleanLinkTarget('https://example.com/p?utm%5Fsource=x&a=b+c#x?y')).toBe('https://example.com/p?a=b+c#x?y');
+    expect(cleanLinkTarget('https://Example.com')).toBe('https://Example.com');
+    expect(cleanLinkTarget('https://example.com/a b?q=ü')).toBe('https://example.com/a b?q=ü');
+  });
+});
@@ -0,0 +1,53 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { Editor, editorViewCtx, serializerCtx } from '@milkdown/core';
+import { createEditor } from './createEditor';
+
+const source = readFileSync(join(__dirname, 'fixtures', 'raw-source.md'), 'utf8');
+
+function rawBlocks(editor: Editor): { kind: string; text: string }[] {
+  const blocks: { kind: string; text: string }[] = [];
+  editor.ctx.get(editorViewCtx).state.doc.descendants((node) => {
+    if (node.type.name === 'raw_source') blocks.push({ kind: node.attrs.kind, text: node.textContent });
+  });
+  return blocks;
+}
+
+describe('raw source blocks', () => {
+  it('parses unsupported constructs into raw blocks', async () => {
+    const { editor } = await createEditor(source);
+    expect(rawBlocks(editor)).toEqual([
+      {
+        kind: 'html',
+        text: '<details>\n<summary>Click to expand</summary>\n\nHidden *markdown* content.\n\n</details>',
+      },
+      { kind: 'html', text: '<!--\n  A multi-line comment\n-->' },
+      { kind: 'directive', text: ':::note{.wide}\nA custom directive with **markup**.\n:::' },
+      { kind: 'directive', text: '::: warning\nSplit by a blank line.\n\nStill inside.\n:::' },
+      { kind: 'html', text: '<div align="center">quoted html</div>' },
+      { kind: 'definition', text: "[guide]: ./docs/guide.md\n[spec]: <https://example.com/spec> 'The Spec'" },
+    ]);
+  });
+
+  it('writes raw blocks back verbatim when the whole doc is serialized', async () => {
+    const { editor } = await createEditor(source);
+    const markdown = editor.ctx.get(serializerCtx)(editor.ctx.get(editorViewCtx).state.doc);
+    for (const block of rawBlocks(editor)) {
+      expect(markdown).toContain(block.text);
+    }
+  });
+
+  it('keeps edits made inside a raw block', async () => {
+    const { editor, view } = await createEditor(source);
+    let pos = -1;
+    view.state.doc.forEach((node, offset) => {
+      if (pos === -1 && node.type.name === 'raw_source') pos = offset + 1;
+    });
+    view.dispatch(view.state.tr.insertText('<p>added</p>\n', pos));
+
+    const markdown = editor.ctx.get(serializerCtx)(view.state.doc);
+    expect(markdown).toContain('<p>added</p>\n<details>\n<summary>Click to expand</summary>');
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Range, resetVscode, Selection, textDocument, textEditor, TextEditorRevealType, webviewPanel, window, windowEvents } from './vscode';
+
+vi.mock('vscode', () => import('./vscode'));
+
+const { SideBySideSync } = await import('../src/sideBySide');
+
+const document = textDocument('/work/notes.md', '# Notes\n');
+
+function messagesOf(panel: ReturnType<typeof webviewPanel>) {
+  return panel.messages.splice(0);
+}
+
+describe('SideBySideSync', () => {
+  let sync: InstanceType<typeof SideBySideSync>;
+
+  beforeEach(() => {
+    sync = new SideBySideSync();
+  });
+
+  afterEach(() => {
+    sync.dispose();
+    vi.useRealTimers();
+    resetVscode();
+  });
+
+  it('syncs only the last attached view and hands back to the previous one when it closes', () => {
+    const editor = textEditor(document, 12, 15);
+    window.visibleTextEditors = [editor];
+    const first = webviewPanel();
+    const second = webviewPanel();
+
+    const firstAttachment = sync.attach(document as never, first.webview as never);
+    expect(messagesOf(first)).toEqual([
+      { type: 'sourceEditorVisible', visible: true },
+      { type: 'sourceScroll', line: 12 },
+      { type: 'sourceCursor', line: 15 },
+    ]);
+
+    const secondAttachment = sync.attach(document as never, second.webview as never);
+    expect(messagesOf(first)).toEqual([{ type: 'sourceEditorVisible', visible: false }]);
+    expect(messagesOf(second)).toEqual([
+      { type: 'sourceEditorVisible', visible: true },
+      { type: 'sourceScroll', line: 12 },
+      { type: 'sourceCursor', line: 15 },
+    ]);
+
+    windowEvents.changeTextEditorSelection.fire({ textEditor: editor, selections: [new Selection(3, 0)] });
+    expect(messagesOf(first)).toEqual([]);
+    expect(messagesOf(second)).toEqual([{ type: 'sourceCursor', line: 3 }]);
+
+    secondAttachment.dispose();
+    expect(messagesOf(first)).toEqual([
+      { type: 'sourceEditorVisible', visible: true },
+      { type: 'sourceScroll', line: 12 },
+      { type: 'sourceCursor', line: 15 },
+    ]);
+    windowEvents.changeTextEditorSelection.fire({ textEditor: editor, selections: [new Selection(4, 0)] });
+    expect(messagesOf(first)).toEqual([{ type: 'sourceCursor', line: 4 }]);
+    expect(messagesOf(second)).toEqual([]);
+
+    sync.renderedCursorMoved(document as never, 4);
+    firstAttachment.dispose();
+    expect(editor.setDecorations).toHaveBeenLastCalledWith(expect.anything(), []);
+    windowEvents.changeTextEditorSelection.fire({ textEditor: editor, selections: [new Selection(5, 0)] });
+    expect(messagesOf(first)).toEqual([]);
+  });
+
+  it('tells the synced view when a text editor of its document opens or closes', () => {
+    const panel = webviewPanel();
+    sync.attach(document as never, panel.webview as never);
+    expect(messagesOf(panel)).toEqual([]);
+
+    window.visibleTextEditors = [textEditor(textDocument('/work/other.md'))];
+    windowEvents.changeVisibleTextEditors.fire(undefined);
+    expect(messagesOf(panel)).toEqual([]);
+
+    window.visibleTextEditors = [textEditor(document, 7, 9)];
+    windowEvents.changeVisibleTextEditors.fire(undefined);
+    expect(messagesOf(panel)).toEqual([
+      { type: 'sourceEditorVisible', visible: true },
+      { type: 'sourceScroll', line: 7 },
+      { type: 'sourceCursor', line: 9 },
+    ]);
+
+    window.visibleTextEditors = [];
+    windowEvents.changeVisibleTextEditors.fire(undefined);
+    expect(messagesOf(panel)).toEqual([{ type: 'sourceEditorVisible', visible: false }]);
+  });
+
+  it('ignores the text editor scrolls its own reveal causes for a short window', () => {
+    vi.useFakeTimers();
+    const editor = textEditor(document);
+    window.visibleTextEditors = [editor];
+    const panel = webviewPanel();
+    sync.attach(document as never, panel.webview as never);
+    messagesOf(panel);
+    const scrollSourceTo = (line: number) =>
+      windowEvents.changeTextEditorVisibleRanges.fire({ textEditor: editor, visibleRanges: [new Range(line, 0, line + 40, 0)] });
+
+    sync.renderedScrolled(document as never, 30);
+    expect(editor.revealRange).toHaveBeenCalledWith(new Range(30, 0, 30, 0), TextEditorRevealType.AtTop);
+
+    scrollSourceTo(30);
+    vi.advanceTimersByTime(199);
+    scrollSourceTo(31);
+    expect(messagesOf(panel)).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    scrollSourceTo(40);
+    expect(messagesOf(panel)).toEqual([{ type: 'sourceScroll', line: 40 }]);
+  });
+});
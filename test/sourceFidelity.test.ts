@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { schemaCtx } from '@milkdown/core';
+import { buildSourceMap, serializeWithSourceMap } from '../src/webview/sourceFidelity';
+import { createEditor as createBaseEditor } from './createEditor';
+
+const FRONTMATTER_REGEX = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(\r?\n)?/;
+
+const corpus = [
+  join(__dirname, '..', 'hello.md'),
+  join(__dirname, '..', 'hello-obsidian.md'),
+  join(__dirname, '..', 'hello-skill.md'),
+  join(__dirname, 'fixtures', 'formatting.md'),
+  join(__dirname, 'fixtures', 'raw-source.md'),
+  join(__dirname, 'fixtures', 'math.md'),
+  join(__dirname, 'fixtures', 'callouts.md'),
+  join(__dirname, 'fixtures', 'wikilinks.md'),
+  join(__dirname, 'fixtures', 'footnotes.md'),
+];
+
+function readBody(file: string): string {
+  const markdown = readFileSync(file, 'utf8');
+  return markdown.replace(FRONTMATTER_REGEX, '');
+}
+
+async function createEditor(markdown: string) {
+  const { editor, view } = await createBaseEditor(markdown);
+  const map = buildSourceMap(editor.ctx, markdown, view.state.doc);
+  const serialize = () => serializeWithSourceMap(editor.ctx, view.state.doc, map!);
+  return { editor, view, map, serialize };
+}
+
+describe('source fidelity round trip', () => {
+  it.each(corpus.map((file) => [file.split(/[\\/]/).pop()!, file]))('keeps %s byte for byte', async (_, file) => {
+    const body = readBody(file);
+    const { map, serialize } = await createEditor(body);
+    expect(map).not.toBeNull();
+    expect(serialize()).toBe(body);
+  });
+
+  it('preserves CRLF line endings of untouched blocks', async () => {
+    const body = readBody(corpus[3]).replace(/\n/g, '\r\n');
+    const { serialize } = await createEditor(body);
+    expect(serialize()).toBe(body);
+  });
+});
+
+describe('source fidelity with edits', () => {
+  const body = readBody(corpus[3]);
+
+  it('re-serializes only the edited block', async () => {
+    const { view, serialize } = await createEditor(body);
+    const heading = view.state.doc.firstChild!;
+    view.dispatch(view.state.tr.insertText(' edited', heading.nodeSize - 1));
+
+    expect(serialize()).toBe(body.replace('Setext Heading\n==============', '# Setext Heading edited'));
+  });
+
+  it('keeps the separators around a deleted block', async () => {
+    const { view, serialize } = await createEditor(body);
+    let from = 0;
+    let to = 0;
+    view.state.doc.forEach((node, offset) => {
+      if (node.type.name === 'table') {
+        from = offset;
+        to = offset + node.nodeSize;
+      }
+    });
+    view.dispatch(view.state.tr.delete(from, to));
+
+    expect(serialize()).toBe(body.replace('|Name|Value|\n|:-|-:|\n|a|1|\n|longer name|22|\n\n', ''));
+  });
+
+  it('serializes inserted blocks and keeps the text around them', async () => {
+    const { view, serialize } = await createEditor(body);
+    const schema = view.state.schema;
+    const paragraph = schema.nodes.paragraph.create(null, schema.text('Inserted'));
+    view.dispatch(view.state.tr.insert(view.state.doc.firstChild!.nodeSize, paragraph));
+
+    expect(serialize()).toBe(body.replace('==============\n', '==============\n\nInserted\n'));
+  });
+
+  it('falls back to no source map when blocks cannot be paired', async () => {
+    const { editor } = await createEditor(body);
+    const doc = editor.ctx.get(schemaCtx).topNodeType.createAndFill()!;
+    expect(buildSourceMap(editor.ctx, body, doc)).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { positionAtSourceLine, sourceLineAt } from '../src/webview/sourceLines';
+import { createEditor } from './createEditor';
+
+const source = [
+  '# Title', //  0
+  '',
+  'First line\\', //  2
+  'second line',
+  '',
+  '- one', //  5
+  '- two', //  6
+  '  - nested', //  7
+  '',
+  '```ts', //  9
+  'const a = 1;', // 10
+  'const b = 2;', // 11
+  '```',
+  '',
+  '> quoted', // 14
+  '',
+].join('\n');
+
+describe('sourceLines', () => {
+  it('maps positions to source lines and back', async () => {
+    const { editor, view } = await createEditor(source);
+    const { doc } = view.state;
+
+    editor.action((ctx) => {
+      const lineOf = (pos: number) => sourceLineAt(ctx, source, doc, pos);
+      const textAt = (line: number) => {
+        const $pos = doc.resolve(positionAtSourceLine(ctx, source, doc, line)!);
+        return $pos.parent.textBetween($pos.parentOffset, $pos.parent.content.size);
+      };
+
+      [0, 2, 3, 5, 6, 7, 9, 10, 11, 14].forEach((line) => {
+        expect(lineOf(positionAtSourceLine(ctx, source, doc, line)!)).toBe(line === 9 ? 10 : line);
+      });
+      expect(textAt(3)).toBe('second line');
+      expect(textAt(6)).toBe('two');
+      expect(textAt(7)).toBe('nested');
+      expect(textAt(11)).toBe('const b = 2;');
+      expect(textAt(14)).toBe('quoted');
+      // Blank lines belong to the block above
+      expect(doc.resolve(positionAtSourceLine(ctx, source, doc, 8)!).parent.textContent).toBe('nested');
+    });
+  });
+
+  it('gives up when the doc and the source no longer line up', async () => {
+    const { editor, view } = await createEditor(source);
+    editor.action((ctx) => {
+      expect(sourceLineAt(ctx, '# Only a heading\n', view.state.doc, 1)).toBeNull();
+      expect(positionAtSourceLine(ctx, '# Only a heading\n', view.state.doc, 0)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FakeTextDocument, resetVscode, textDocument, webviewPanel, workspaceEvents } from './vscode';
+
+vi.mock('vscode', () => import('./vscode'));
+
+const { DocumentSync, SyncManager } = await import('../src/syncManager');
+
+type Panel = ReturnType<typeof webviewPanel>;
+
+const syncs: InstanceType<typeof DocumentSync>[] = [];
+
+/** A document shown in two panels, both sent its initial content. */
+function openTwoPanels(text: string) {
+  const document = textDocument('/work/notes.md', text);
+  const documentSync = new DocumentSync(document as never);
+  syncs.push(documentSync);
+  const open = () => {
+    const panel = webviewPanel();
+    const manager = new SyncManager(document as never, panel as never, documentSync);
+    documentSync.panels.add(manager);
+    manager.updateWebview();
+    panel.messages.length = 0;
+    return { panel, manager };
+  };
+  return { document, documentSync, a: open(), b: open() };
+}
+
+/** Changes the document the way a workspace edit would, firing the change event. */
+function write(document: FakeTextDocument, text: string) {
+  document.setText(text);
+  workspaceEvents.changeTextDocument.fire({ document });
+}
+
+/** An edit as the provider applies it for a panel: rebased, then applied as the panel's own. */
+async function editFrom(
+  documentSync: InstanceType<typeof DocumentSync>,
+  document: FakeTextDocument,
+  manager: InstanceType<typeof SyncManager>,
+  content: string,
+  baseVersion: number
+) {
+  const { text } = manager.rebaseEdit(content, baseVersion, document.getText());
+  await documentSync.applyEdit(async () => {
+    if (text !== document.getText()) write(document, text);
+    manager.lastSentContent = content;
+  }, manager);
+}
+
+function updates(panel: Panel) {
+  return panel.messages.filter((message) => message.type === 'update').map((message) => message.content);
+}
+
+/** Lets the next-tick release of applied edits run. */
+async function settle() {
+  for (let i = 0; i < 2; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+afterEach(() => {
+  syncs.splice(0).forEach((documentSync) => documentSync.dispose());
+  resetVscode();
+});
+
+describe('DocumentSync', () => {
+  it("sends a panel's edit to the other panels but not back to its own", async () => {
+    const { document, documentSync, a, b } = openTwoPanels('# Notes\n');
+
+    await editFrom(documentSync, document, a.manager, '# Notes\n\nFrom A\n', 1);
+    // VS Code can report the same change again after the edit resolves.
+    workspaceEvents.changeTextDocument.fire({ document });
+    await settle();
+
+    expect(updates(a.panel)).toEqual([]);
+    expect(updates(b.panel)).toEqual(['# Notes\n\nFrom A\n']);
+    expect(documentSync.externalChanges.getHunks()).toEqual([]);
+    expect(documentSync.isInternalChange()).toBe(false);
+  });
+
+  it('sends external changes to every panel and records them for review', async () => {
+    const { document, documentSync, a, b } = openTwoPanels('# Notes\n\nOld line\n');
+
+    write(document, '# Notes\n\nNew line\n');
+
+    expect(updates(a.panel)).toEqual(['# Notes\n\nNew line\n']);
+    expect(updates(b.panel)).toEqual(['# Notes\n\nNew line\n']);
+    expect(documentSync.externalChanges.getHunks()).toEqual([{ id: 1, start: 9, end: 18, original: 'Old line\n' }]);
+    for (const { panel } of [a, b]) {
+      expect(panel.messages.filter((message) => message.type === 'externalChanges').at(-1)?.hunks).toEqual([
+        { id: 1, line: 2, original: 'Old line\n', current: 'New line\n' },
+      ]);
+    }
+  });
+
+  it('updates every panel for edits without a panel, such as review reverts, without recording them', async () => {
+    const { document, documentSync, a, b } = openTwoPanels('Old line\n');
+    write(document, 'New line\n');
+
+    await documentSync.applyEdit(async () => write(document, 'Old line\n'));
+    await settle();
+
+    expect(updates(a.panel)).toEqual(['New line\n', 'Old line\n']);
+    expect(updates(b.panel)).toEqual(['New line\n', 'Old line\n']);
+    expect(documentSync.externalChanges.getHunks()).toEqual([]);
+  });
+
+  it('keeps treating an edit as internal after its panel closes, and stops posting to it', async () => {
+    const { document, documentSync, a, b } = openTwoPanels('# Notes\n');
+
+    await editFrom(documentSync, document, a.manager, '# Notes\n\nFrom A\n', 1);
+    a.manager.dispose();
+    documentSync.panels.delete(a.manager);
+    a.panel.messages.length = 0;
+    // The late repeat of A's change arrives before the edit settles.
+    workspaceEvents.changeTextDocument.fire({ document });
+    await settle();
+
+    expect(documentSync.externalChanges.getHunks()).toEqual([]);
+    expect(a.panel.messages).toEqual([]);
+
+    // Once settled, changes are external again and still reach the open panel.
+    write(document, '# Notes\n\nFrom elsewhere\n');
+    expect(documentSync.externalChanges.getHunks()).toHaveLength(1);
+    expect(updates(b.panel)).toEqual(['# Notes\n\nFrom A\n', '# Notes\n\nFrom elsewhere\n']);
+    expect(a.panel.messages).toEqual([]);
+  });
+
+  it('merges concurrent edits made by both panels against the same version', async () => {
+    const { document, documentSync, a, b } = openTwoPanels('first\nsecond\n');
+
+    await Promise.all([
+      editFrom(documentSync, document, a.manager, 'first from A\nsecond\n', 1),
+      editFrom(documentSync, document, b.manager, 'first\nsecond from B\n', 1),
+    ]);
+    await settle();
+
+    expect(document.getText()).toBe('first from A\nsecond from B\n');
+    expect(updates(a.panel).at(-1)).toBe('first from A\nsecond from B\n');
+    expect(updates(b.panel).at(-1)).toBe('first from A\nsecond from B\n');
+    expect(documentSync.externalChanges.getHunks()).toEqual([]);
+  });
+});
+
+describe('SyncManager.rebaseEdit', () => {
+  it('applies edits made against the current text as they are', () => {
+    const { a } = openTwoPanels('one\n');
+    expect(a.manager.rebaseEdit('one!\n', 1, 'one\n')).toEqual({ text: 'one!\n', conflict: false });
+    expect(a.manager.rebaseEdit('one?\n', undefined, 'changed\n')).toEqual({ text: 'one?\n', conflict: false });
+  });
+
+  it('merges an edit onto changes made since its base version', () => {
+    const { a } = openTwoPanels('one\ntwo\n');
+    expect(a.manager.rebaseEdit('one!\ntwo\n', 1, 'one\ntwo?\n')).toEqual({ text: 'one!\ntwo?\n', conflict: false });
+  });
+
+  it('builds on the previous edit when several share a base version', () => {
+    const { a } = openTwoPanels('one\ntwo\n');
+    a.manager.rebaseEdit('one!\ntwo\n', 1, 'one\ntwo\n');
+    // The document now has the first edit plus an external change to the second line.
+    expect(a.manager.rebaseEdit('one!!\ntwo\n', 1, 'one!\ntwo?\n')).toEqual({ text: 'one!!\ntwo?\n', conflict: false });
+  });
+
+  it('keeps the document and reports a conflict when the base version is no longer known', () => {
+    const { a } = openTwoPanels('one\n');
+    expect(a.manager.rebaseEdit('mine\n', 99, 'theirs\n')).toEqual({ text: 'theirs\n', conflict: true });
+    expect(a.manager.rebaseEdit('theirs\n', 98, 'theirs\n')).toEqual({ text: 'theirs\n', conflict: false });
+  });
+});
@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { serializerCtx } from '@milkdown/core';
+import { TextSelection } from '@milkdown/prose/state';
+import { callCommand } from '@milkdown/utils';
+import { documentTaskProgress, toggleTaskListCommand } from '../src/webview/taskList';
+import { createEditor } from './createEditor';
+
+describe('task lists', () => {
+  it('writes checkbox clicks back as [x] and [ ]', async () => {
+    const { editor, view } = await createEditor('- [ ] Buy milk\n- [x] Call mom\n');
+    const boxes = view.dom.querySelectorAll<HTMLInputElement>('li.task-list-item > input[type="checkbox"]');
+    expect([...boxes].map((box) => box.checked)).toEqual([false, true]);
+
+    boxes[0].checked = true;
+    boxes[0].dispatchEvent(new Event('change'));
+    boxes[1].checked = false;
+    boxes[1].dispatchEvent(new Event('change'));
+    const markdown = editor.ctx.get(serializerCtx)(view.state.doc);
+    expect(markdown).toContain('* [x] Buy milk\n');
+    expect(markdown).toContain('* [ ] Call mom\n');
+  });
+
+  it('turns paragraphs and list items into tasks and back', async () => {
+    const { editor, view } = await createEditor('Plain line\n\n* Item\n');
+    const serialize = () => editor.ctx.get(serializerCtx)(view.state.doc);
+
+    view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, 3)));
+    editor.action(callCommand(toggleTaskListCommand.key));
+    expect(serialize()).toMatch(/^\* \[ \] Plain line\n\n[-*] Item\n$/);
+
+    view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, 3, view.state.doc.content.size - 3)));
+    editor.action(callCommand(toggleTaskListCommand.key));
+    expect(serialize()).toMatch(/^\* \[ \] Plain line\n\n[-*] \[ \] Item\n$/);
+    editor.action(callCommand(toggleTaskListCommand.key));
+    expect(serialize()).toMatch(/^\* Plain line\n\n[-*] Item\n$/);
+  });
+
+  it('summarizes progress per list and for the document', async () => {
+    const { view } = await createEditor('- [x] One\n- [ ] Two\n- Note\n\nText\n\n1. [x] Three\n');
+    const lists = view.dom.querySelectorAll('ul, ol');
+    expect([...lists].map((list) => list.getAttribute('data-task-progress'))).toEqual([
+      '1 of 2 done',
+      '1 of 1 done',
+    ]);
+    expect(documentTaskProgress(view.state.doc)).toEqual({ done: 2, total: 3 });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { computeLineChanges, computeTextChanges, mergeTextChanges, TextChange } from '../src/textDiff';
+
+/** Applies changes in original offsets, last first, like a WorkspaceEdit would. */
+function applyChanges(text: string, changes: TextChange[]): string {
+  return [...changes].reverse().reduce((result, change) => result.slice(0, change.start) + change.text + result.slice(change.end), text);
+}
+
+describe('computeTextChanges', () => {
+  it('returns minimal replacements in original offsets', () => {
+    expect(computeTextChanges('same', 'same')).toEqual([]);
+    expect(computeTextChanges('one two three', 'one 2 three!')).toEqual([
+      { start: 4, end: 7, text: '2' },
+      { start: 13, end: 13, text: '!' },
+    ]);
+  });
+
+  it('turns a one-character edit into a one-character change', () => {
+    const text = '# Title\n\nA long paragraph of text.\n';
+    expect(computeTextChanges(text, text.replace('long', 'lung'))).toEqual([{ start: 12, end: 13, text: 'u' }]);
+    expect(computeTextChanges(text, text.replace('long ', ''))).toEqual([{ start: 11, end: 16, text: '' }]);
+  });
+
+  it('handles changes at the start and end of the document', () => {
+    expect(computeTextChanges('body\n', '---\n---\nbody\n')).toEqual([{ start: 0, end: 0, text: '---\n---\n' }]);
+    expect(computeTextChanges('body\n', 'body\nmore\n')).toEqual([{ start: 5, end: 5, text: 'more\n' }]);
+    expect(computeTextChanges('body\n', '')).toEqual([{ start: 0, end: 5, text: '' }]);
+    expect(computeTextChanges('', 'body\n')).toEqual([{ start: 0, end: 0, text: 'body\n' }]);
+  });
+
+  it('produces non-overlapping changes that rebuild the new text', () => {
+    const oldText = 'alpha\nbeta\ngamma\ndelta\n';
+    const newText = 'Alpha\nbeta\ngamma ray\n\ndelta\nepsilon\n';
+    const changes = computeTextChanges(oldText, newText);
+
+    changes.slice(1).forEach((change, i) => expect(change.start).toBeGreaterThan(changes[i].end));
+    expect(applyChanges(oldText, changes)).toBe(newText);
+  });
+});
+
+describe('computeLineChanges', () => {
+  it('widens changes to whole lines', () => {
+    expect(computeLineChanges('one\ntwo\nthree\n', 'one\n2\nthree\n')).toEqual([{ start: 4, end: 8, text: '2\n' }]);
+  });
+});
+
+describe('mergeTextChanges', () => {
+  const base = 'alpha\nbeta\ngamma\n';
+
+  it('applies changes from both sides when they touch different ranges', () => {
+    expect(mergeTextChanges(base, 'ALPHA\nbeta\ngamma\n', 'alpha\nbeta\nGAMMA\n')).toEqual({
+      text: 'ALPHA\nbeta\nGAMMA\n',
+      conflict: false,
+    });
+  });
+
+  it('takes whichever side changed when the other did not', () => {
+    expect(mergeTextChanges(base, base, 'alpha\n')).toEqual({ text: 'alpha\n', conflict: false });
+    expect(mergeTextChanges(base, 'alpha\n', base)).toEqual({ text: 'alpha\n', conflict: false });
+  });
+
+  it('keeps their text when the changes overlap', () => {
+    const theirs = 'alpha\nBETA\ngamma\n';
+    expect(mergeTextChanges(base, 'alpha\nbets\ngamma\n', theirs)).toEqual({ text: theirs, conflict: true });
+  });
+
+  it('treats insertions at the same offset as a conflict', () => {
+    const theirs = 'alpha\nbeta\nfrom them\ngamma\n';
+    expect(mergeTextChanges(base, 'alpha\nbeta\nfrom us\ngamma\n', theirs)).toEqual({ text: theirs, conflict: true });
+  });
+});
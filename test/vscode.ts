@@ -0,0 +1,263 @@
+import { posix } from 'path';
+import { vi } from 'vitest';
+
+/**
+ * The slice of the VS Code API the extension-host modules under test use, backed by plain
+ * objects. Tests load it with `vi.mock('vscode', () => import('./vscode'))` and drive it through
+ * the emitters, `configuration` and `visibleTextEditors` below; call `resetVscode` between tests.
+ */
+
+type Listener<T> = (value: T) => unknown;
+
+export class Disposable {
+  constructor(private readonly onDispose: () => void) {}
+
+  dispose() {
+    this.onDispose();
+  }
+}
+
+export class EventEmitter<T> {
+  private listeners: Listener<T>[] = [];
+
+  event = (listener: Listener<T>) => {
+    this.listeners.push(listener);
+    return new Disposable(() => {
+      this.listeners = this.listeners.filter((other) => other !== listener);
+    });
+  };
+
+  fire(value: T) {
+    this.listeners.forEach((listener) => listener(value));
+  }
+
+  dispose() {
+    this.listeners = [];
+  }
+}
+
+export class Uri {
+  private constructor(public readonly fsPath: string) {}
+
+  static file(path: string): Uri {
+    return new Uri(posix.normalize(path));
+  }
+
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return new Uri(posix.join(base.fsPath, ...segments));
+  }
+
+  get path(): string {
+    return this.fsPath;
+  }
+
+  toString(): string {
+    return `file://${this.fsPath}`;
+  }
+}
+
+export class Position {
+  constructor(public readonly line: number, public readonly character: number) {}
+}
+
+export class Range {
+  public readonly start: Position;
+  public readonly end: Position;
+
+  constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+    this.start = new Position(startLine, startCharacter);
+    this.end = new Position(endLine, endCharacter);
+  }
+}
+
+export class Selection extends Range {
+  public readonly active: Position;
+
+  constructor(line: number, character: number) {
+    super(line, character, line, character);
+    this.active = this.start;
+  }
+}
+
+export class ThemeColor {
+  constructor(public readonly id: string) {}
+}
+
+export class Diagnostic {
+  public source?: string;
+
+  constructor(public readonly range: Range, public readonly message: string, public readonly severity: number) {}
+}
+
+export class RelativePattern {
+  public readonly baseUri: Uri;
+
+  constructor(base: { uri: Uri } | Uri, public readonly pattern: string) {
+    this.baseUri = base instanceof Uri ? base : base.uri;
+  }
+}
+
+export const DiagnosticSeverity = { Error: 0, Warning: 1, Information: 2, Hint: 3 };
+export const TextEditorRevealType = { Default: 0, InCenter: 1, InCenterIfOutsideViewport: 2, AtTop: 3 };
+
+export interface FakeTextDocument {
+  uri: Uri;
+  fileName: string;
+  languageId: string;
+  version: number;
+  isClosed: boolean;
+  lineCount: number;
+  getText(): string;
+  setText(text: string): void;
+  lineAt(line: number): { range: Range };
+  positionAt(offset: number): Position;
+}
+
+/** A markdown document at `path`; `setText` bumps its version like an edit would. */
+export function textDocument(path: string, text = ''): FakeTextDocument {
+  let content = text;
+  const lines = () => content.split('\n');
+  return {
+    uri: Uri.file(path),
+    fileName: path,
+    languageId: 'markdown',
+    version: 1,
+    isClosed: false,
+    get lineCount() {
+      return lines().length;
+    },
+    getText: () => content,
+    setText(next: string) {
+      content = next;
+      this.version++;
+    },
+    lineAt: (line: number) => ({ range: new Range(line, 0, line, lines()[line]?.length ?? 0) }),
+    positionAt(offset: number) {
+      const before = content.slice(0, offset).split('\n');
+      return new Position(before.length - 1, before[before.length - 1].length);
+    },
+  };
+}
+
+/** A text editor showing `document`, recording what the extension does to it. */
+export function textEditor(document: FakeTextDocument, topLine = 0, cursorLine = 0) {
+  return {
+    document,
+    visibleRanges: [new Range(topLine, 0, topLine + 40, 0)],
+    selection: new Selection(cursorLine, 0),
+    revealRange: vi.fn(),
+    setDecorations: vi.fn(),
+  };
+}
+
+/** A webview panel whose posted messages are collected in `messages`. */
+export function webviewPanel(active = false) {
+  const messages: { type: string; [key: string]: unknown }[] = [];
+  return {
+    active,
+    messages,
+    webview: { postMessage: vi.fn(async (message: { type: string }) => messages.push(message)) },
+  };
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+    } else if (char === '}') {
+      source += ')';
+    } else if (char === ',') {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export const configuration: Record<string, Record<string, unknown>> = {};
+export const workspaceFolders: { uri: Uri; name: string; index: number }[] = [];
+export const files = new Map<string, string>();
+export const diagnostics = new Map<string, Diagnostic[]>();
+
+export const workspaceEvents = {
+  openTextDocument: new EventEmitter<FakeTextDocument>(),
+  changeTextDocument: new EventEmitter<{ document: FakeTextDocument }>(),
+  closeTextDocument: new EventEmitter<FakeTextDocument>(),
+  saveTextDocument: new EventEmitter<FakeTextDocument>(),
+  changeConfiguration: new EventEmitter<{ affectsConfiguration(section: string): boolean }>(),
+};
+
+export const windowEvents = {
+  changeVisibleTextEditors: new EventEmitter<unknown>(),
+  changeTextEditorVisibleRanges: new EventEmitter<{ textEditor: ReturnType<typeof textEditor>; visibleRanges: Range[] }>(),
+  changeTextEditorSelection: new EventEmitter<{ textEditor: ReturnType<typeof textEditor>; selections: Selection[] }>(),
+};
+
+export const workspace = {
+  workspaceFolders,
+  textDocuments: [] as FakeTextDocument[],
+  getConfiguration: (section: string) => ({
+    get: <T>(key: string, fallback?: T): T => (configuration[section]?.[key] as T | undefined) ?? (fallback as T),
+  }),
+  getWorkspaceFolder: (uri: Uri) =>
+    workspaceFolders.find((folder) => uri.fsPath.startsWith(`${folder.uri.fsPath}/`)),
+  asRelativePath: (uri: Uri | string) => (typeof uri === 'string' ? uri : uri.fsPath),
+  fs: {
+    readFile: async (uri: Uri) => {
+      const text = files.get(uri.fsPath);
+      if (text === undefined) throw new Error(`ENOENT: ${uri.fsPath}`);
+      return new TextEncoder().encode(text);
+    },
+  },
+  onDidOpenTextDocument: workspaceEvents.openTextDocument.event,
+  onDidChangeTextDocument: workspaceEvents.changeTextDocument.event,
+  onDidCloseTextDocument: workspaceEvents.closeTextDocument.event,
+  onDidSaveTextDocument: workspaceEvents.saveTextDocument.event,
+  onDidChangeConfiguration: workspaceEvents.changeConfiguration.event,
+};
+
+export const window = {
+  visibleTextEditors: [] as ReturnType<typeof textEditor>[],
+  createTextEditorDecorationType: () => ({ dispose: vi.fn() }),
+  showWarningMessage: vi.fn(async () => undefined),
+  onDidChangeVisibleTextEditors: windowEvents.changeVisibleTextEditors.event,
+  onDidChangeTextEditorVisibleRanges: windowEvents.changeTextEditorVisibleRanges.event,
+  onDidChangeTextEditorSelection: windowEvents.changeTextEditorSelection.event,
+};
+
+export const languages = {
+  createDiagnosticCollection: () => ({
+    set: (uri: Uri, list: Diagnostic[]) => diagnostics.set(uri.toString(), list),
+    delete: (uri: Uri) => diagnostics.delete(uri.toString()),
+    dispose: () => undefined,
+  }),
+  match(selector: { pattern: string | RelativePattern }, document: FakeTextDocument): number {
+    const { pattern } = selector;
+    if (typeof pattern === 'string') return globToRegExp(pattern).test(document.uri.fsPath) ? 10 : 0;
+    const relative = posix.relative(pattern.baseUri.fsPath, document.uri.fsPath);
+    return !relative.startsWith('..') && globToRegExp(pattern.pattern).test(relative) ? 10 : 0;
+  },
+};
+
+export function resetVscode() {
+  Object.keys(configuration).forEach((section) => delete configuration[section]);
+  workspaceFolders.length = 0;
+  workspace.textDocuments = [];
+  window.visibleTextEditors = [];
+  files.clear();
+  diagnostics.clear();
+  window.showWarningMessage.mockClear();
+}
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetVscode, Uri, workspaceFolders } from './vscode';
+
+vi.mock('vscode', () => import('./vscode'));
+
+const { newNoteUri } = await import('../src/wikiLinkIndex');
+
+describe('newNoteUri', () => {
+  beforeEach(() => resetVscode());
+
+  it('creates notes next to the linking document, anywhere inside the workspace', () => {
+    workspaceFolders.push({ uri: Uri.file('/work'), name: 'work', index: 0 });
+    const documentUri = Uri.file('/work/notes/daily/today.md');
+
+    expect(newNoteUri('Ideas', documentUri)?.fsPath).toBe('/work/notes/daily/Ideas.md');
+    expect(newNoteUri('projects/Plan.md', documentUri)?.fsPath).toBe('/work/notes/daily/projects/Plan.md');
+    expect(newNoteUri('../../Inbox', documentUri)?.fsPath).toBe('/work/Inbox.md');
+  });
+
+  it('rejects absolute targets and ones outside the workspace folder', () => {
+    workspaceFolders.push({ uri: Uri.file('/work'), name: 'work', index: 0 });
+    const documentUri = Uri.file('/work/notes/today.md');
+
+    expect(newNoteUri('../../../somewhere/x', documentUri)).toBeUndefined();
+    expect(newNoteUri('../../work-other/x', documentUri)).toBeUndefined();
+    expect(newNoteUri('/etc/x', documentUri)).toBeUndefined();
+    expect(newNoteUri('C:\\Users\\x', documentUri)).toBeUndefined();
+    expect(newNoteUri('~/x', documentUri)).toBeUndefined();
+  });
+
+  it('keeps notes in the document folder when there is no workspace', () => {
+    const documentUri = Uri.file('/home/me/notes/today.md');
+
+    expect(newNoteUri('sub/Idea', documentUri)?.fsPath).toBe('/home/me/notes/sub/Idea.md');
+    expect(newNoteUri('../Idea', documentUri)).toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { serializerCtx } from '@milkdown/core';
+import { resolveWikiLinkTarget, shortestWikiLinkTarget } from '../src/wikiLinks';
+import { createEditor } from './createEditor';
+
+const source = readFileSync(join(__dirname, 'fixtures', 'wikilinks.md'), 'utf8');
+
+describe('wikilink resolution', () => {
+  const files = ['Meeting Notes', 'notes/Glossary', 'archive/Glossary', 'projects/Roadmap', 'projects/notes/Glossary'];
+
+  it('prefers an exact path, then a file in the same folder, then the shortest path', () => {
+    expect(resolveWikiLinkTarget('meeting notes', files, 'README')).toBe('Meeting Notes');
+    expect(resolveWikiLinkTarget('projects/Roadmap.md', files, 'README')).toBe('projects/Roadmap');
+    expect(resolveWikiLinkTarget('Glossary', files, 'archive/Index')).toBe('archive/Glossary');
+    expect(resolveWikiLinkTarget('Glossary', files, 'README')).toBe('notes/Glossary');
+    expect(resolveWikiLinkTarget('Nowhere', files, 'README')).toBeUndefined();
+    expect(resolveWikiLinkTarget('', files, 'projects/Roadmap')).toBe('projects/Roadmap');
+  });
+
+  it('uses the bare name only when it is unique', () => {
+    expect(shortestWikiLinkTarget('projects/Roadmap', files)).toBe('Roadmap');
+    expect(shortestWikiLinkTarget('notes/Glossary', files)).toBe('notes/Glossary');
+  });
+});
+
+describe('wikilink nodes', () => {
+  it('parses wikilinks outside code and links', async () => {
+    const { view } = await createEditor(source);
+    const links: Record<string, unknown>[] = [];
+    view.state.doc.descendants((node) => {
+      if (node.type.name === 'wikilink') links.push({ ...node.attrs });
+    });
+    expect(links).toEqual([
+      { target: 'Meeting Notes', heading: '', alias: '' },
+      { target: 'projects/Roadmap', heading: 'Q3 Goals', alias: '' },
+      { target: 'Glossary', heading: '', alias: 'the glossary' },
+      { target: '', heading: 'Wikilinks', alias: '' },
+      { target: 'Nowhere', heading: '', alias: '' },
+    ]);
+  });
+
+  it('serializes wikilinks without escaping the brackets', async () => {
+    const { editor, view } = await createEditor(source);
+    expect(editor.ctx.get(serializerCtx)(view.state.doc)).toBe(source);
+  });
+});